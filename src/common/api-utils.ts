@@ -9,6 +9,11 @@
  * - Logging
  */
 
+import { randomUUID } from "crypto";
+import { EndpointHealthTracker } from "./endpoint-health.js";
+import { LogContext, Logger, getDefaultLogger } from "./logger.js";
+import { AttemptSample } from "./metrics.js";
+
 // Type for API response with generic data
 export interface ApiResponse<T> {
   success: boolean;
@@ -18,7 +23,9 @@ export interface ApiResponse<T> {
     code?: string;
     status?: number;
     details?: any;
+    retryAfterMs?: number;
   };
+  requestId?: string;
   metrics?: {
     responseTime: number;
     retries: number;
@@ -26,6 +33,140 @@ export interface ApiResponse<T> {
   };
 }
 
+/**
+ * Function that performs an HTTP request; has the same shape as the global fetch
+ */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * A request as seen by transport interceptors
+ */
+export interface HttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Hooks that observe or modify requests made through a transport
+ * - `request` can rewrite the URL or options (e.g. inject headers)
+ * - `response` can inspect or replace the response
+ * - `error` can recover from a failed request by returning a response, or rethrow
+ */
+export interface TransportInterceptor {
+  request?: (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+  response?: (response: Response, request: HttpRequest) => Response | Promise<Response>;
+  error?: (error: unknown, request: HttpRequest) => Response | Promise<Response>;
+}
+
+/**
+ * Options for building a transport
+ */
+export interface TransportOptions {
+  fetch?: HttpTransport;
+  interceptors?: TransportInterceptor[];
+}
+
+/**
+ * Transport that uses the global fetch
+ */
+export const defaultTransport: HttpTransport = (url, init) => fetch(url, init);
+
+/**
+ * Build a transport that runs interceptors around a fetch implementation
+ * Request and response interceptors run in order; error interceptors run in
+ * order until one of them returns a response.
+ * 
+ * @param options The fetch implementation and interceptors to use
+ * @returns A transport for RequestOptions.transport
+ */
+export function createTransport(options: TransportOptions = {}): HttpTransport {
+  const baseFetch = options.fetch || defaultTransport;
+  const interceptors = options.interceptors || [];
+  
+  if (interceptors.length === 0) return baseFetch;
+  
+  return async (url, init) => {
+    let request: HttpRequest = { url, init };
+    for (const interceptor of interceptors) {
+      if (interceptor.request) request = await interceptor.request(request);
+    }
+    
+    let response: Response;
+    try {
+      response = await baseFetch(request.url, request.init);
+    } catch (error) {
+      let lastError = error;
+      let recovered: Response | undefined;
+      
+      for (const interceptor of interceptors) {
+        if (!interceptor.error) continue;
+        try {
+          recovered = await interceptor.error(lastError, request);
+          break;
+        } catch (interceptorError) {
+          lastError = interceptorError;
+        }
+      }
+      
+      if (!recovered) throw lastError;
+      response = recovered;
+    }
+    
+    for (const interceptor of interceptors) {
+      if (interceptor.response) response = await interceptor.response(response, request);
+    }
+    
+    return response;
+  };
+}
+
+/**
+ * A limiter that requests wait on before being sent, see createRateLimiter
+ */
+export interface RequestRateLimiter {
+  acquire(signal?: AbortSignal): Promise<void>;
+  pauseFor(ms: number): void;
+}
+
+/**
+ * When a failed request may be retried
+ * - auto: idempotent methods always; other methods only with an idempotency key
+ * - always: regardless of method
+ * - never: no retries
+ */
+export type RetryPolicy = 'auto' | 'always' | 'never';
+
+/**
+ * Methods that can be repeated without changing the result beyond the first call
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Check whether an HTTP method is idempotent and therefore safe to retry
+ */
+export function isIdempotentMethod(method: string = 'GET'): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Settings for hedged reads
+ * The hedge is sent once the primary request has taken longer than the given
+ * percentile of the endpoint's recent response times, or `delayMs` while too
+ * few response times are known.
+ */
+export interface HedgeOptions {
+  percentile?: number;
+  delayMs?: number;
+}
+
+/**
+ * Default hedging settings
+ */
+export const DEFAULT_HEDGE_OPTIONS: Required<HedgeOptions> = {
+  percentile: 95,
+  delayMs: 1000, // 1 second
+};
+
 /**
  * Options for API requests with timeout and retry settings
  */
@@ -36,6 +177,17 @@ export interface RequestOptions {
   headers?: Record<string, string>;
   validateStatus?: (status: number) => boolean;
   fallbackEndpoints?: string[];
+  baseUrl?: string;  // Base of the request URL that fallback endpoints replace
+  endpointHealth?: EndpointHealthTracker;
+  rateLimiter?: RequestRateLimiter;
+  maxRetryAfterMs?: number;  // Longest Retry-After that is waited out instead of failing
+  retryPolicy?: RetryPolicy;
+  idempotencyKey?: string | boolean;  // true generates a key for non-idempotent methods
+  signal?: AbortSignal;  // Cancels the request, including retries and backoff waits
+  hedge?: boolean | HedgeOptions;  // Race slow reads against the next fallback endpoint
+  transport?: HttpTransport;
+  logger?: Logger;  // Receives retry and fallback entries; the default logger if not set
+  onAttempt?: (attempt: AttemptSample) => void;  // Called as each attempt is sent, e.g. to count retries
 }
 
 /**
@@ -45,6 +197,7 @@ export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
   timeout: 10000, // 10 seconds
   retries: 3,
   retryDelay: 1000, // 1 second
+  maxRetryAfterMs: 60000, // 1 minute
   validateStatus: (status: number) => status >= 200 && status < 300,
 };
 
@@ -66,51 +219,168 @@ export class ApiResponseError extends Error {
     message: string,
     public status?: number,
     public endpoint?: string,
-    public responseBody?: any
+    public responseBody?: any,
+    public requestId?: string,
+    public retryAfterMs?: number
   ) {
     super(message);
     this.name = 'ApiResponseError';
   }
 }
 
+/**
+ * Headers servers commonly use to identify a request, in order of preference
+ */
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-correlation-id', 'cf-ray'];
+
+/**
+ * Get the server-assigned request ID from response headers, if there is one
+ */
+export function getRequestId(headers: Headers): string | undefined {
+  for (const name of REQUEST_ID_HEADERS) {
+    const value = headers.get(name);
+    if (value) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Build an error message from a parsed error body
+ * Falls back to the HTTP status when the body has no usable message
+ */
+function getErrorMessage(body: any, response: Response): string {
+  if (typeof body?.message === 'string' && body.message) return body.message;
+  // FastAPI-style errors put the message in `detail`
+  if (typeof body?.detail === 'string' && body.detail) return body.detail;
+  return `HTTP Error ${response.status}: ${response.statusText}`;
+}
+
+/**
+ * Get how long the server asked clients to wait from a Retry-After header
+ * The header holds either a number of seconds or an HTTP date.
+ */
+export function getRetryAfterMs(headers: Headers): number | undefined {
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Get how long until the server's rate limit resets, if it is exhausted
+ * Reads X-RateLimit-Remaining and X-RateLimit-Reset; the reset is either
+ * seconds from now or a Unix timestamp in seconds.
+ */
+export function getRateLimitResetMs(headers: Headers): number | undefined {
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (remaining === null || Number(remaining) > 0 || !reset) return undefined;
+  
+  // Values this large can only be timestamps
+  const resetMs = reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000;
+  return Math.max(0, resetMs);
+}
+
+/**
+ * Pause the rate limiter when the server says its rate limit is exhausted
+ */
+function applyRateLimitHeaders(response: Response, rateLimiter?: RequestRateLimiter): void {
+  if (!rateLimiter) return;
+  
+  const retryAfterMs = response.status === 429 || response.status === 503
+    ? getRetryAfterMs(response.headers)
+    : undefined;
+  const pauseMs = retryAfterMs ?? getRateLimitResetMs(response.headers);
+  
+  if (pauseMs) rateLimiter.pauseFor(pauseMs);
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * 
+ * @param ms Delay in milliseconds
+ * @param signal Optional signal that cancels the wait
+ * @throws The signal's abort reason if it is aborted while waiting
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Utility to execute a promise with a timeout
  * 
  * @param promise The promise to execute or a function that returns a promise and accepts an AbortSignal
  * @param timeoutMs Timeout in milliseconds
  * @param operationName Name of the operation for error messages
+ * @param externalSignal Optional signal that cancels the operation
  * @returns Promise result
  * @throws ApiTimeoutError if the operation times out
+ * @throws The external signal's abort reason if it is aborted first
  */
 export function withTimeout<T>(
   promise: Promise<T> | ((signal?: AbortSignal) => Promise<T>),
   timeoutMs: number = DEFAULT_REQUEST_OPTIONS.timeout!,
-  operationName: string = 'API Request'
+  operationName: string = 'API Request',
+  externalSignal?: AbortSignal
 ): Promise<T> {
   // AbortController is used to cancel fetch requests
   const controller = new AbortController();
   const { signal } = controller;
   
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-  }, timeoutMs);
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let onExternalAbort: (() => void) | undefined;
   
-  // Create a timeout error if needed
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => {
-      reject(new ApiTimeoutError(
+  // Reject on timeout or cancellation, and abort the operation either way
+  const cancelPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = new ApiTimeoutError(
         `Operation "${operationName}" timed out after ${timeoutMs}ms`,
         operationName
-      ));
+      );
+      controller.abort(error);
+      reject(error);
     }, timeoutMs);
+    
+    onExternalAbort = () => {
+      controller.abort(externalSignal!.reason);
+      reject(externalSignal!.reason);
+    };
+    
+    if (externalSignal?.aborted) {
+      onExternalAbort();
+    } else {
+      externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+    }
   });
   
   // Return the first promise to resolve/reject
   return Promise.race([
     typeof promise === 'function' ? promise(signal) : promise,
-    timeoutPromise
+    cancelPromise
   ]).finally(() => {
     clearTimeout(timeoutId);
+    externalSignal?.removeEventListener('abort', onExternalAbort!);
   }) as Promise<T>;
 }
 
@@ -133,11 +403,14 @@ export async function withRetry<T>(
   
   while (retryCount <= maxRetries) {
     try {
-      const controller = new AbortController();
+      // Wait for the rate limiter outside the timeout, so queueing never times out a request
+      await options.rateLimiter?.acquire(options.signal);
+      
       const result = await withTimeout<T>(
         (signal) => fn(retryCount, signal),
         options.timeout,
-        `API request (attempt ${retryCount + 1}/${maxRetries + 1})`
+        `API request (attempt ${retryCount + 1}/${maxRetries + 1})`,
+        options.signal
       );
       
       // Add retry metadata to the result if it's an object
@@ -150,6 +423,12 @@ export async function withRetry<T>(
       lastError = error;
       retryCount++;
       
+      // Cancelled requests are never retried
+      if (options.signal?.aborted) throw error;
+      
+      // Errors that know a retry cannot help, e.g. an unmatched request in cassette replay
+      if ((error as { retryable?: boolean } | undefined)?.retryable === false) throw error;
+      
       // Don't wait if we've used all retries
       if (retryCount > maxRetries) break;
       
@@ -162,17 +441,27 @@ export async function withRetry<T>(
         }
       }
       
-      // Calculate backoff delay with exponential backoff + jitter
-      const delay = initialDelay * Math.pow(2, retryCount - 1) * (0.8 + Math.random() * 0.4);
+      // Don't wait out a Retry-After longer than allowed
+      const retryAfterMs = error instanceof ApiResponseError ? error.retryAfterMs : undefined;
+      const maxRetryAfterMs = options.maxRetryAfterMs ?? DEFAULT_REQUEST_OPTIONS.maxRetryAfterMs!;
+      if (retryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+        throw error;
+      }
+      
+      // Calculate backoff delay with exponential backoff + jitter, or honor Retry-After
+      const backoffMs = retryAfterMs
+        ?? initialDelay * Math.pow(2, retryCount - 1) * (0.8 + Math.random() * 0.4);
       
       // Log the retry attempt
-      console.warn(
-        `API request failed (attempt ${retryCount}/${maxRetries + 1}), retrying in ${Math.round(delay)}ms:`,
-        error instanceof Error ? error.message : error
-      );
+      (options.logger ?? getDefaultLogger()).warn("API request failed, retrying", {
+        attempt: retryCount,
+        maxAttempts: maxRetries + 1,
+        delayMs: Math.round(backoffMs),
+        error,
+      });
       
-      // Wait before retrying
-      await new Promise(resolve => setTimeout(resolve, delay));
+      // Wait before retrying; cancellation interrupts the wait
+      await delay(backoffMs, options.signal);
     }
   }
   
@@ -180,6 +469,157 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/**
+ * Check whether a failure means the endpoint itself is unhealthy
+ * Client errors (4xx) show the endpoint is answering, so only timeouts,
+ * server errors and network failures count against it.
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (error instanceof ApiResponseError && error.status) {
+    return error.status >= 500 || error.status === 408;
+  }
+  return true;
+}
+
+/**
+ * Abort reason given to the slower of two hedged requests
+ */
+const HEDGE_LOST = new DOMException('A faster hedged request already answered', 'AbortError');
+
+/**
+ * Get how long to wait for an endpoint before sending a hedged request
+ */
+function getHedgeDelay(
+  endpoint: string,
+  hedgeOptions: HedgeOptions,
+  health?: EndpointHealthTracker
+): number {
+  const percentile = hedgeOptions.percentile ?? DEFAULT_HEDGE_OPTIONS.percentile;
+  return health?.getLatencyPercentile(endpoint, percentile)
+    ?? hedgeOptions.delayMs
+    ?? DEFAULT_HEDGE_OPTIONS.delayMs;
+}
+
+/**
+ * Run a request and, if it hasn't answered after `delayMs`, a second one alongside it
+ * The first success wins and the other request is aborted. The hedge is sent
+ * right away if the first request fails with an endpoint failure; client
+ * errors (4xx) are final.
+ */
+function raceHedged<R>(
+  primary: (signal: AbortSignal) => Promise<R>,
+  hedge: (signal: AbortSignal) => Promise<R>,
+  delayMs: number,
+  signal?: AbortSignal
+): Promise<R> {
+  return new Promise((resolve, reject) => {
+    const controllers: AbortController[] = [];
+    let pending = 0;
+    let settled = false;
+    let hedgeTimer: ReturnType<typeof setTimeout> | undefined;
+    
+    // A cancelled or timed-out call ends here; the hedge must not be sent after it
+    const onAbort = () => {
+      if (settled) return;
+      settle();
+      controllers.forEach(controller => controller.abort(signal!.reason));
+      reject(signal!.reason);
+    };
+    
+    const settle = (winner?: AbortController) => {
+      settled = true;
+      clearTimeout(hedgeTimer);
+      signal?.removeEventListener('abort', onAbort);
+      controllers
+        .filter(controller => controller !== winner)
+        .forEach(controller => controller.abort(HEDGE_LOST));
+    };
+    
+    const launch = (run: (signal: AbortSignal) => Promise<R>) => {
+      if (settled || signal?.aborted) return;
+      const controller = new AbortController();
+      controllers.push(controller);
+      pending++;
+      
+      run(controller.signal).then(
+        result => {
+          if (settled) return;
+          settle(controller);
+          resolve(result);
+        },
+        error => {
+          pending--;
+          if (settled) return;
+          if (signal?.aborted) {
+            onAbort();
+            return;
+          }
+          
+          if (isEndpointFailure(error) && controllers.length < 2) {
+            clearTimeout(hedgeTimer);
+            launch(hedge);
+          } else if (!isEndpointFailure(error) || pending === 0) {
+            settle();
+            reject(error);
+          }
+        }
+      );
+    };
+    
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    
+    launch(primary);
+    hedgeTimer = setTimeout(() => {
+      if (!settled && controllers.length < 2) launch(hedge);
+    }, delayMs);
+  });
+}
+
+/**
+ * Resolve the endpoints a request may be sent to
+ * When `baseUrl` is set and the URL starts with it, fallback endpoints are
+ * treated as alternative base URLs and the request path is kept; otherwise
+ * they are used as complete URLs.
+ */
+function resolveEndpoints(
+  url: string,
+  requestOptions: RequestOptions
+): { endpoints: string[]; path: string } {
+  const fallbackEndpoints = requestOptions.fallbackEndpoints || [];
+  const baseUrl = requestOptions.baseUrl;
+  
+  if (baseUrl && url.startsWith(baseUrl)) {
+    return {
+      endpoints: [...new Set([baseUrl, ...fallbackEndpoints])],
+      path: url.slice(baseUrl.length),
+    };
+  }
+  
+  return { endpoints: [url, ...fallbackEndpoints], path: "" };
+}
+
+/**
+ * Get the idempotency key for a request
+ * A key already set in the headers wins over one from the request options.
+ */
+function getIdempotencyKey(
+  method: string,
+  options: RequestInit,
+  requestOptions: RequestOptions
+): string | undefined {
+  const headers = { ...(options.headers as Record<string, string> | undefined), ...requestOptions.headers };
+  const headerName = Object.keys(headers).find(name => name.toLowerCase() === 'idempotency-key');
+  if (headerName) return headers[headerName];
+  
+  if (typeof requestOptions.idempotencyKey === 'string') return requestOptions.idempotencyKey;
+  if (requestOptions.idempotencyKey && !isIdempotentMethod(method)) return randomUUID();
+  return undefined;
+}
+
 /**
  * Make a fetch request with timeout, retries and error handling
  * 
@@ -196,21 +636,40 @@ export async function fetchWithRetry<T>(
   const startTime = Date.now();
   let currentUrl = url;
   let retryAttempt = 0;
-  let fallbackIndex = 0;
   
   // Use alternative endpoints if provided and main one fails
-  const fallbackEndpoints = requestOptions.fallbackEndpoints || [];
-  const allEndpoints = [url, ...fallbackEndpoints];
+  const { endpoints, path } = resolveEndpoints(url, requestOptions);
+  const health = requestOptions.endpointHealth;
+  const trackHealth = !!health && endpoints.every(endpoint => health.has(endpoint));
+  const tried = new Set<string>();
   
-  return withRetry(async (retry, signal) => {
-    retryAttempt = retry;
-    
-    // If retrying and fallbacks exist, use next fallback URL
-    if (retry > 0 && fallbackEndpoints.length > 0) {
-      fallbackIndex = retry % allEndpoints.length;
-      currentUrl = allEndpoints[fallbackIndex];
-      console.log(`Trying fallback endpoint ${fallbackIndex}: ${currentUrl}`);
-    }
+  // One key per logical call, so the server can recognize every attempt as the same request
+  const method = (options.method || 'GET').toUpperCase();
+  const idempotencyKey = getIdempotencyKey(method, options, requestOptions);
+  const retryPolicy = requestOptions.retryPolicy ?? 'auto';
+  const canRetry = retryPolicy === 'always'
+    || (retryPolicy === 'auto' && (isIdempotentMethod(method) || !!idempotencyKey));
+  const retryOptions = canRetry ? requestOptions : { ...requestOptions, retries: 0 };
+  
+  // Only reads are hedged, since they are safe to send twice
+  const hedgeOptions = requestOptions.hedge === true ? {} : requestOptions.hedge || undefined;
+  const canHedge = !!hedgeOptions && (method === 'GET' || method === 'HEAD') && endpoints.length > 1;
+  
+  // Start at the healthiest endpoint and move on to one not tried yet on each retry
+  const nextEndpoint = (exclude?: string): string => {
+    const order = (trackHealth
+      ? health!.getOrder().filter(candidate => endpoints.includes(candidate))
+      : endpoints
+    ).filter(candidate => candidate !== exclude);
+    if (order.every(candidate => tried.has(candidate))) order.forEach(candidate => tried.delete(candidate));
+    const endpoint = order.find(candidate => !tried.has(candidate))!;
+    tried.add(endpoint);
+    return endpoint;
+  };
+  
+  const attempt = async (endpoint: string, signal: AbortSignal | undefined): Promise<ApiResponse<T>> => {
+    const attemptUrl = endpoint + path;
+    currentUrl = attemptUrl;
     
     // Add abort signal to fetch options
     const fetchOptions: RequestInit = {
@@ -226,9 +685,23 @@ export async function fetchWithRetry<T>(
       };
     }
     
+    const headerNames = Object.keys(fetchOptions.headers || {}).map(name => name.toLowerCase());
+    if (idempotencyKey && !headerNames.includes('idempotency-key')) {
+      fetchOptions.headers = {
+        ...fetchOptions.headers,
+        'Idempotency-Key': idempotencyKey,
+      };
+    }
+    
+    const attemptStart = Date.now();
+    if (trackHealth) health!.recordAttempt(endpoint);
+    requestOptions.onAttempt?.({ endpoint, retry: retryAttempt });
+    
     try {
-      const response = await fetch(currentUrl, fetchOptions);
+      const transport = requestOptions.transport || defaultTransport;
+      const response = await transport(attemptUrl, fetchOptions);
       const responseTime = Date.now() - startTime;
+      applyRateLimitHeaders(response, requestOptions.rateLimiter);
       
       // Validate status code
       const isValidStatus = requestOptions.validateStatus 
@@ -241,7 +714,7 @@ export async function fetchWithRetry<T>(
         
         try {
           errorDetails = await response.json();
-          errorMessage = errorDetails.message || `HTTP Error ${response.status}: ${response.statusText}`;
+          errorMessage = getErrorMessage(errorDetails, response);
         } catch (parseError) {
           try {
             errorMessage = await response.text();
@@ -253,8 +726,10 @@ export async function fetchWithRetry<T>(
         throw new ApiResponseError(
           errorMessage,
           response.status,
-          currentUrl,
-          errorDetails
+          attemptUrl,
+          errorDetails,
+          getRequestId(response.headers),
+          getRetryAfterMs(response.headers)
         );
       }
       
@@ -271,89 +746,136 @@ export async function fetchWithRetry<T>(
         data = await response.text() as unknown as T;
       }
       
+      if (trackHealth) health!.recordSuccess(endpoint, Date.now() - attemptStart);
+      currentUrl = attemptUrl;
+      
       return {
         success: true,
         data,
+        requestId: getRequestId(response.headers),
         metrics: {
           responseTime,
           retries: retryAttempt,
-          endpoint: currentUrl,
+          endpoint: attemptUrl,
         },
       };
-      
     } catch (error) {
-      // Format error for consistent handling
-      if (error instanceof ApiResponseError) {
-        return {
-          success: false,
-          error: {
-            message: error.message,
-            status: error.status,
-            details: error.responseBody,
-          },
-          metrics: {
-            responseTime: Date.now() - startTime,
-            retries: retryAttempt,
-            endpoint: currentUrl,
-          },
-        };
-      } 
-      
-      if (error instanceof ApiTimeoutError) {
-        return {
-          success: false,
-          error: {
-            message: error.message,
-            code: 'TIMEOUT',
-          },
-          metrics: {
-            responseTime: Date.now() - startTime,
-            retries: retryAttempt,
-            endpoint: currentUrl,
-          },
-        };
+      // Cancellation by the caller or by a faster hedged request says nothing about the endpoint
+      if (trackHealth && (requestOptions.signal?.aborted || signal?.reason === HEDGE_LOST)) {
+        health!.cancelAttempt(endpoint);
+      } else if (trackHealth) {
+        if (isEndpointFailure(error)) {
+          health!.recordFailure(endpoint);
+        } else {
+          health!.recordSuccess(endpoint, Date.now() - attemptStart);
+        }
       }
       
-      // Handle fetch cancellation (abort)
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        return {
-          success: false,
-          error: {
-            message: 'Request was aborted',
-            code: 'ABORTED',
-          },
-          metrics: {
-            responseTime: Date.now() - startTime,
-            retries: retryAttempt,
-            endpoint: currentUrl,
-          },
-        };
-      }
+      // Rethrow so withRetry can decide whether to try again
+      throw error;
+    }
+  };
+  
+  try {
+    return await withRetry(async (retry, signal) => {
+      retryAttempt = retry;
       
-      // Handle network errors
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        return {
-          success: false,
-          error: {
-            message: 'Network error: Unable to connect to the server',
-            code: 'NETWORK_ERROR',
-            details: error.message,
-          },
-          metrics: {
-            responseTime: Date.now() - startTime,
-            retries: retryAttempt,
-            endpoint: currentUrl,
-          },
-        };
+      const endpoint = nextEndpoint();
+      if (retry > 0 && endpoint !== endpoints[0]) {
+        (requestOptions.logger ?? getDefaultLogger()).info("Trying fallback endpoint", {
+          fallback: endpoints.indexOf(endpoint),
+          url: endpoint + path,
+        });
       }
       
-      // Generic error handler
+      if (!canHedge) return attempt(endpoint, signal);
+      
+      // Send a second request to another endpoint if the first one is slower than usual
+      const hedgeDelay = getHedgeDelay(endpoint, hedgeOptions!, trackHealth ? health : undefined);
+      return raceHedged<ApiResponse<T>>(
+        (hedgeSignal) => attempt(endpoint, hedgeSignal),
+        (hedgeSignal) => attempt(nextEndpoint(endpoint), hedgeSignal),
+        hedgeDelay,
+        signal
+      );
+    }, retryOptions) as ApiResponse<T>;
+    
+  } catch (error) {
+    // Cancellation by the caller, whatever reason the signal carries
+    if (requestOptions.signal?.aborted) {
+      return {
+        success: false,
+        error: {
+          message: 'Request was aborted',
+          code: 'ABORTED',
+          details: requestOptions.signal.reason,
+        },
+        metrics: {
+          responseTime: Date.now() - startTime,
+          retries: retryAttempt,
+          endpoint: currentUrl,
+        },
+      };
+    }
+    
+    // Format error for consistent handling
+    if (error instanceof ApiResponseError) {
+      return {
+        success: false,
+        error: {
+          message: error.message,
+          status: error.status,
+          details: error.responseBody,
+          retryAfterMs: error.retryAfterMs,
+        },
+        requestId: error.requestId,
+        metrics: {
+          responseTime: Date.now() - startTime,
+          retries: retryAttempt,
+          endpoint: currentUrl,
+        },
+      };
+    } 
+    
+    if (error instanceof ApiTimeoutError) {
+      return {
+        success: false,
+        error: {
+          message: error.message,
+          code: 'TIMEOUT',
+        },
+        metrics: {
+          responseTime: Date.now() - startTime,
+          retries: retryAttempt,
+          endpoint: currentUrl,
+        },
+      };
+    }
+    
+    // Handle fetch cancellation (abort)
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return {
+        success: false,
+        error: {
+          message: 'Request was aborted',
+          code: 'ABORTED',
+        },
+        metrics: {
+          responseTime: Date.now() - startTime,
+          retries: retryAttempt,
+          endpoint: currentUrl,
+        },
+      };
+    }
+    
+    // Handle network errors
+    if (error instanceof TypeError && error.message.includes('fetch')) {
       return {
         success: false,
         error: {
-          message: error instanceof Error ? error.message : String(error),
-          code: 'UNKNOWN_ERROR',
-          details: error,
+          message: 'Network error: Unable to connect to the server',
+          code: 'NETWORK_ERROR',
+          details: error.message,
         },
         metrics: {
           responseTime: Date.now() - startTime,
@@ -362,33 +884,254 @@ export async function fetchWithRetry<T>(
         },
       };
     }
-  }, requestOptions) as Promise<ApiResponse<T>>;
+    
+    // Generic error handler
+    return {
+      success: false,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        code: 'UNKNOWN_ERROR',
+        details: error,
+      },
+      metrics: {
+        responseTime: Date.now() - startTime,
+        retries: retryAttempt,
+        endpoint: currentUrl,
+      },
+    };
+  }
+}
+
+/**
+ * A single event read from a streaming response
+ */
+export interface StreamEvent {
+  data: string;
+  event?: string;
+  id?: string;
+}
+
+/**
+ * Options for streaming requests
+ */
+export interface StreamRequestOptions {
+  idleTimeout?: number;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  validateStatus?: (status: number) => boolean;
+  rateLimiter?: RequestRateLimiter;
+  transport?: HttpTransport;
+}
+
+/**
+ * Default streaming options
+ */
+export const DEFAULT_STREAM_OPTIONS: StreamRequestOptions = {
+  idleTimeout: 30000, // 30 seconds without data
+  validateStatus: (status: number) => status >= 200 && status < 300,
+};
+
+/**
+ * Parse one server-sent event block (the text between two blank lines)
+ * 
+ * @param block Raw event block
+ * @returns The parsed event, or null if the block carried no data
+ */
+export function parseServerSentEvent(block: string): StreamEvent | null {
+  const dataLines: string[] = [];
+  let event: string | undefined;
+  let id: string | undefined;
+  
+  for (const line of block.split('\n')) {
+    // Lines starting with a colon are comments (often used as keep-alives)
+    if (!line || line.startsWith(':')) continue;
+    
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    
+    if (field === 'data') {
+      dataLines.push(value);
+    } else if (field === 'event') {
+      event = value;
+    } else if (field === 'id') {
+      id = value;
+    }
+  }
+  
+  if (dataLines.length === 0) return null;
+  
+  return { data: dataLines.join('\n'), event, id };
+}
+
+/**
+ * Make a streaming fetch request and yield events as they arrive
+ * 
+ * Server-sent event responses are parsed into individual events; any other
+ * content type is yielded chunk by chunk as it is received. Instead of a total
+ * timeout, the stream is aborted when no data arrives within the idle timeout.
+ * Breaking out of the iteration or aborting the signal cancels the request.
+ * 
+ * @param url The URL to fetch
+ * @param options Fetch options
+ * @param streamOptions Streaming options
+ * @throws ApiTimeoutError if the stream stays idle for too long
+ * @throws ApiResponseError if the server responds with an invalid status
+ */
+export async function* fetchStream(
+  url: string,
+  options: RequestInit = {},
+  streamOptions: StreamRequestOptions = DEFAULT_STREAM_OPTIONS
+): AsyncGenerator<StreamEvent> {
+  const idleTimeout = streamOptions.idleTimeout ?? DEFAULT_STREAM_OPTIONS.idleTimeout!;
+  const validateStatus = streamOptions.validateStatus ?? DEFAULT_STREAM_OPTIONS.validateStatus!;
+  const controller = new AbortController();
+  const externalSignal = streamOptions.signal;
+  
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+  
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, idleTimeout);
+  };
+  
+  const onExternalAbort = () => controller.abort();
+  if (externalSignal?.aborted) {
+    controller.abort();
+  } else {
+    externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+  }
+  
+  try {
+    await streamOptions.rateLimiter?.acquire(controller.signal);
+    resetIdleTimer();
+    
+    const transport = streamOptions.transport || defaultTransport;
+    const response = await transport(url, {
+      ...options,
+      headers: {
+        ...(options.headers as Record<string, string> | undefined),
+        ...streamOptions.headers,
+      },
+      signal: controller.signal,
+    });
+    applyRateLimitHeaders(response, streamOptions.rateLimiter);
+    
+    if (!validateStatus(response.status)) {
+      let errorMessage: string;
+      let errorDetails: any;
+      const errorText = await response.text().catch(() => '');
+      
+      try {
+        errorDetails = JSON.parse(errorText);
+        errorMessage = getErrorMessage(errorDetails, response);
+      } catch (parseError) {
+        errorMessage = errorText || `HTTP Error ${response.status}: ${response.statusText}`;
+      }
+      
+      throw new ApiResponseError(
+        errorMessage,
+        response.status,
+        url,
+        errorDetails,
+        getRequestId(response.headers),
+        getRetryAfterMs(response.headers)
+      );
+    }
+    
+    if (!response.body) {
+      throw new ApiResponseError(
+        'Streaming response has no body',
+        response.status,
+        url,
+        undefined,
+        getRequestId(response.headers)
+      );
+    }
+    
+    const isEventStream = response.headers.get('content-type')?.includes('text/event-stream') ?? false;
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        
+        resetIdleTimer();
+        buffer += decoder.decode(value, { stream: true });
+        
+        if (!isEventStream) {
+          if (buffer) yield { data: buffer };
+          buffer = '';
+          continue;
+        }
+        
+        // Events are separated by a blank line
+        buffer = buffer.replace(/\r\n?/g, '\n');
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const event = parseServerSentEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (event) yield event;
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+      
+      // Flush whatever is left once the server closes the stream
+      buffer += decoder.decode();
+      if (buffer.trim()) {
+        const event = isEventStream ? parseServerSentEvent(buffer.replace(/\r\n?/g, '\n')) : { data: buffer };
+        if (event) yield event;
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiTimeoutError(
+        `Stream from ${url} received no data for ${idleTimeout}ms`,
+        'Stream'
+      );
+    }
+    throw error;
+  } finally {
+    if (idleTimer) clearTimeout(idleTimer);
+    externalSignal?.removeEventListener('abort', onExternalAbort);
+    // Make sure the underlying request is released if the consumer stopped early
+    controller.abort();
+  }
 }
 
 /**
  * API logger helper functions
+ * Entries go to the given logger, or to the default logger, which is silent
+ * unless replaced with setDefaultLogger.
  */
 export const ApiLogger = {
-  request: (method: string, url: string, options?: any) => {
-    console.log(`🌐 API Request: ${method} ${url}`, options ? { options } : '');
+  request: (method: string, url: string, context?: LogContext, logger: Logger = getDefaultLogger()) => {
+    logger.debug("API request", { method, url, ...context });
   },
   
-  response: (method: string, url: string, response: ApiResponse<any>) => {
+  response: (method: string, url: string, response: ApiResponse<any>, logger: Logger = getDefaultLogger()) => {
+    const fields = { method, url, requestId: response.requestId, ...response.metrics };
+    
     if (response.success) {
-      console.log(
-        `✅ API Success: ${method} ${url} (${response.metrics?.responseTime}ms)`,
-        { metrics: response.metrics }
-      );
+      logger.debug("API response", fields);
     } else {
-      console.error(
-        `❌ API Error: ${method} ${url} - ${response.error?.message}`,
-        { error: response.error, metrics: response.metrics }
-      );
+      const { message, code, status, retryAfterMs } = response.error || { message: "Unknown error" };
+      logger.warn("API request failed", { ...fields, error: { message, code, status, retryAfterMs } });
     }
   },
   
-  error: (method: string, url: string, error: any) => {
-    console.error(`❌ API Exception: ${method} ${url}`, error);
+  error: (method: string, url: string, error: unknown, logger: Logger = getDefaultLogger()) => {
+    logger.error("API request threw an exception", { method, url, error });
   }
 };
 
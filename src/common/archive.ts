@@ -0,0 +1,117 @@
+/**
+ * Archive Utilities
+ *
+ * Minimal tar (ustar) writer used to package files for upload. Only regular
+ * files are written; directories are implied by the file paths.
+ */
+
+import { gzipSync } from "zlib";
+
+/**
+ * A file to add to an archive
+ */
+export interface ArchiveEntry {
+  path: string;  // Relative path inside the archive, using forward slashes
+  content: Buffer;
+  mode?: number;
+  mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+
+/**
+ * Error class for files that cannot be represented in a tar archive
+ */
+export class ArchiveError extends Error {
+  constructor(message: string, public path?: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+/**
+ * Write an octal number into a header field, NUL terminated
+ */
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  const octal = value.toString(8).padStart(length - 1, "0");
+  header.write(`${octal}\0`, offset, length, "ascii");
+}
+
+/**
+ * Split a path into the ustar `prefix` and `name` fields
+ */
+function splitPath(path: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(path) <= 100) {
+    return { name: path, prefix: "" };
+  }
+
+  // Find a slash that leaves at most 155 bytes of prefix and 100 bytes of name
+  for (let i = path.lastIndexOf("/"); i > 0; i = path.lastIndexOf("/", i - 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { name, prefix };
+    }
+  }
+
+  throw new ArchiveError(`Path is too long for a tar archive: ${path}`, path);
+}
+
+/**
+ * Build the 512 byte ustar header for an entry
+ */
+function createHeader(entry: ArchiveEntry): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE, 0);
+  const { name, prefix } = splitPath(entry.path);
+  const mtime = Math.floor((entry.mtime ?? new Date()).getTime() / 1000);
+
+  header.write(name, 0, 100, "utf8");
+  writeOctal(header, entry.mode ?? 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, entry.content.length, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.write("        ", 148, 8, "ascii"); // Checksum is computed with spaces here
+  header.write("0", 156, 1, "ascii"); // Regular file
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+  header.write(prefix, 345, 155, "utf8");
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+
+  return header;
+}
+
+/**
+ * Create a tar archive from a list of files
+ *
+ * @param entries Files to include
+ * @returns The uncompressed archive
+ */
+export function createTar(entries: ArchiveEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    blocks.push(createHeader(entry), entry.content);
+
+    const padding = (BLOCK_SIZE - (entry.content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) blocks.push(Buffer.alloc(padding, 0));
+  }
+
+  // The archive ends with two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2, 0));
+
+  return Buffer.concat(blocks);
+}
+
+/**
+ * Create a gzip-compressed tar archive from a list of files
+ *
+ * @param entries Files to include
+ * @returns The compressed archive
+ */
+export function createTarGz(entries: ArchiveEntry[]): Buffer {
+  return gzipSync(createTar(entries));
+}
@@ -0,0 +1,211 @@
+/**
+ * Response Caching
+ *
+ * TTL cache for API reads with pluggable storage:
+ * - MemoryCacheStore keeps entries in process memory (the default)
+ * - RuntimeCacheStore stores entries in an Eliza runtime's cacheManager,
+ *   so they survive restarts
+ */
+
+import { Logger, getDefaultLogger } from "./logger.js";
+
+/**
+ * A cached value with its expiry time
+ */
+export interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;  // Epoch milliseconds
+}
+
+/**
+ * Storage backend for cached responses
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The parts of Eliza's cache manager used by RuntimeCacheStore
+ */
+export interface CacheManagerLike {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, options?: { expires?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for a response cache
+ */
+export interface ResponseCacheOptions {
+  store?: CacheStore;
+  ttlMs?: number;
+  namespace?: string;  // Prefix for every key, e.g. to separate accounts
+  logger?: Logger;  // Receives store failures; the default logger if not set
+}
+
+/**
+ * Default cache options
+ */
+export const DEFAULT_CACHE_OPTIONS = {
+  ttlMs: 30000, // 30 seconds
+  maxEntries: 500,
+};
+
+/**
+ * In-memory cache store
+ * The oldest entries are evicted once the store holds `maxEntries` entries.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private maxEntries: number = DEFAULT_CACHE_OPTIONS.maxEntries) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry as CacheEntry<T> | undefined;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Cache store backed by an Eliza runtime's cacheManager
+ */
+export class RuntimeCacheStore implements CacheStore {
+  constructor(private cacheManager: CacheManagerLike) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    return this.cacheManager.get<CacheEntry<T>>(key);
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.cacheManager.set(key, entry, { expires: entry.expiresAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cacheManager.delete(key);
+  }
+}
+
+/**
+ * TTL cache for API responses
+ * Store failures are logged and treated as cache misses, so a broken store
+ * never breaks the request it was meant to speed up.
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private ttlMs: number;
+  private namespace: string;
+  private writtenKeys = new Set<string>();
+  private logger: Logger;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore();
+    this.logger = options.logger || getDefaultLogger();
+    this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_OPTIONS.ttlMs;
+    this.namespace = options.namespace || "cache";
+  }
+
+  /**
+   * Replace the store; entries in the previous store are no longer used
+   */
+  setStore(store: CacheStore): void {
+    this.store = store;
+    this.writtenKeys.clear();
+  }
+
+  /**
+   * Replace the logger that receives store failures
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Get a cached value, or undefined if it is missing or expired
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const entry = await this.store.get<T>(this.toStoreKey(key));
+      if (!entry || entry.expiresAt <= Date.now()) return undefined;
+      return entry.value;
+    } catch (error) {
+      this.logger.warn("Cache read failed", { key, error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Cache a value for the given TTL (or the cache's default TTL)
+   */
+  async set<T>(key: string, value: T, ttlMs: number = this.ttlMs): Promise<void> {
+    if (ttlMs <= 0) return;
+
+    const storeKey = this.toStoreKey(key);
+    try {
+      await this.store.set(storeKey, { value, expiresAt: Date.now() + ttlMs });
+      this.writtenKeys.add(storeKey);
+    } catch (error) {
+      this.logger.warn("Cache write failed", { key, error });
+    }
+  }
+
+  /**
+   * Return the cached value for a key, or load and cache it
+   */
+  async getOrLoad<T>(key: string, load: () => Promise<T>, ttlMs?: number): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) return cached;
+
+    const value = await load();
+    await this.set(key, value, ttlMs);
+    return value;
+  }
+
+  /**
+   * Remove the given keys, e.g. after a mutation made them stale
+   */
+  async invalidate(...keys: string[]): Promise<void> {
+    await Promise.all(keys.map(async key => {
+      const storeKey = this.toStoreKey(key);
+      this.writtenKeys.delete(storeKey);
+      try {
+        await this.store.delete(storeKey);
+      } catch (error) {
+        this.logger.warn("Cache invalidation failed", { key, error });
+      }
+    }));
+  }
+
+  /**
+   * Remove every entry this cache has written
+   */
+  async clear(): Promise<void> {
+    const keys = [...this.writtenKeys];
+    this.writtenKeys.clear();
+    await Promise.all(keys.map(key => this.store.delete(key).catch(() => {})));
+  }
+
+  private toStoreKey(key: string): string {
+    return `${this.namespace}:${key}`;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * HTTP Cassettes
+ *
+ * Record and replay HTTP traffic through a transport:
+ * - record mode sends requests over the network and saves every
+ *   request/response pair to a JSON fixture, with secrets scrubbed
+ * - replay mode answers requests from the fixture without touching the
+ *   network, and fails on requests that were never recorded
+ *
+ * Pass `cassette.transport` as RequestOptions.transport, or as the
+ * `transport` of a ChutesClient.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { HttpTransport, defaultTransport } from "./api-utils.js";
+import { createRedactor } from "./logger.js";
+
+export type CassetteMode = "record" | "replay";
+
+/**
+ * A recorded request and the response it received
+ * JSON bodies are stored parsed, so fixtures stay readable.
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    json?: unknown;
+    text?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    json?: unknown;
+    text?: string;
+  };
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Options for a cassette
+ */
+export interface CassetteOptions {
+  mode: CassetteMode;
+  path: string;  // JSON fixture file
+  fetch?: HttpTransport;  // Sends recorded requests; the global fetch by default
+  redactFields?: string[];  // Header and body fields to scrub in addition to the defaults
+  matchBody?: boolean;  // Also match request bodies in replay mode (default true)
+}
+
+/**
+ * Raised in replay mode for a request that has no recorded interaction
+ * Retrying cannot help, so requests fail at once instead of backing off.
+ */
+export class CassetteMismatchError extends Error {
+  readonly retryable = false;
+
+  constructor(public method: string, public url: string, cassettePath: string) {
+    super(`No recorded interaction for ${method} ${url} in cassette ${cassettePath}`);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/**
+ * Statuses whose responses never have a body
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Response headers that describe the encoded body; recorded bodies are stored decoded
+ */
+const BODY_ENCODING_HEADERS = ["content-encoding", "content-length", "transfer-encoding"];
+
+/**
+ * Records HTTP traffic to a fixture, or replays it from one
+ */
+export class Cassette {
+  readonly transport: HttpTransport;
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+  private redact: (value: unknown) => unknown;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private options: CassetteOptions) {
+    // Fixtures must keep the full shape of responses, however deeply nested
+    this.redact = createRedactor(options.redactFields, { maxDepth: Infinity });
+
+    if (options.mode === "replay") {
+      const file = JSON.parse(fs.readFileSync(options.path, "utf8")) as CassetteFile;
+      this.interactions = file.interactions || [];
+      this.transport = (url, init) => this.replay(url, init);
+    } else {
+      this.transport = (url, init) => this.record(url, init);
+    }
+  }
+
+  /**
+   * Interactions recorded so far, or loaded for replay
+   */
+  getInteractions(): CassetteInteraction[] {
+    return [...this.interactions];
+  }
+
+  /**
+   * Recorded interactions that replay has not served yet
+   */
+  getUnusedInteractions(): CassetteInteraction[] {
+    return this.interactions.filter((_, index) => !this.used.has(index));
+  }
+
+  /**
+   * Write the recorded interactions to the fixture file
+   * Record mode saves after every interaction; call this to wait for the last write.
+   */
+  save(): Promise<void> {
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    // Writes run one at a time; a failed write is reported to its caller only, not to later saves
+    const write = this.pendingWrite.catch(() => undefined).then(async () => {
+      await fs.promises.mkdir(path.dirname(this.options.path), { recursive: true });
+      await fs.promises.writeFile(this.options.path, JSON.stringify(file, null, 2) + "\n");
+    });
+    this.pendingWrite = write;
+    return write;
+  }
+
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    const send = this.options.fetch || defaultTransport;
+    const response = await send(url, init);
+    const text = await response.text();
+
+    this.interactions.push({
+      request: {
+        method: (init.method || "GET").toUpperCase(),
+        url: this.redact(url) as string,
+        headers: this.redact(toHeaderRecord(init.headers)) as Record<string, string>,
+        ...this.toBody(typeof init.body === "string" ? init.body : undefined),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.redact(toHeaderRecord(response.headers, BODY_ENCODING_HEADERS)) as Record<string, string>,
+        ...this.toBody(text),
+      },
+    });
+    await this.save();
+
+    return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : text, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method || "GET").toUpperCase();
+    const target = toPathAndQuery(this.redact(url) as string);
+    const body = typeof init.body === "string" ? this.toBody(init.body) : undefined;
+
+    const matches = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction }) =>
+        interaction.request.method === method
+        && toPathAndQuery(interaction.request.url) === target
+        && (this.options.matchBody === false || !body || sameBody(interaction.request, body))
+      );
+    if (matches.length === 0) {
+      throw new CassetteMismatchError(method, target, this.options.path);
+    }
+
+    // Identical requests get their recorded responses in order, e.g. while
+    // polling a status; the last one is repeated once they run out
+    const match = matches.find(({ index }) => !this.used.has(index)) || matches[matches.length - 1];
+    this.used.add(match.index);
+
+    const { status, statusText, headers, json, text } = match.interaction.response;
+    const responseBody = json !== undefined ? JSON.stringify(json) : text ?? "";
+    return new Response(NULL_BODY_STATUSES.includes(status) ? null : responseBody, { status, statusText, headers });
+  }
+
+  /**
+   * Scrub a body, keeping JSON bodies as parsed values
+   */
+  private toBody(body: string | undefined): { json?: unknown; text?: string } {
+    if (body === undefined || body === "") return {};
+    try {
+      return { json: this.redact(JSON.parse(body)) };
+    } catch {
+      return { text: this.redact(body) as string };
+    }
+  }
+}
+
+function toHeaderRecord(headers: HeadersInit | undefined, exclude: string[] = []): Record<string, string> {
+  return Object.fromEntries([...new Headers(headers).entries()].filter(([name]) => !exclude.includes(name)));
+}
+
+/**
+ * Requests are matched on path and query, so fixtures replay against any base URL
+ */
+function toPathAndQuery(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+function sameBody(
+  recorded: CassetteInteraction["request"],
+  body: { json?: unknown; text?: string }
+): boolean {
+  return JSON.stringify(recorded.json) === JSON.stringify(body.json) && recorded.text === body.text;
+}
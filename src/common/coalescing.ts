@@ -0,0 +1,102 @@
+/**
+ * Request Coalescing
+ *
+ * Shares one in-flight request between concurrent callers asking for the
+ * same thing. Entries are removed as soon as the request settles, so
+ * failures are never reused by later callers.
+ */
+
+/**
+ * Counters describing how many requests were shared
+ */
+export interface CoalescingStats {
+  started: number;  // Requests actually sent
+  coalesced: number;  // Calls that joined a request already in flight
+  inFlight: number;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;  // Callers still waiting for the result
+}
+
+/**
+ * Deduplicates concurrent requests by key
+ */
+export class RequestCoalescer {
+  private inFlight = new Map<string, InFlightRequest>();
+  private started = 0;
+  private coalesced = 0;
+
+  /**
+   * Run a request, or join the identical request already in flight
+   * Each caller's signal only cancels that caller's wait; the shared request
+   * is aborted once every caller has stopped waiting. A caller without a
+   * signal keeps it running until it settles.
+   *
+   * @param key Identifies identical requests, e.g. method and URL
+   * @param request Starts the request when none is in flight, with a signal for aborting it
+   * @param signal Optional signal that cancels this caller's wait
+   * @throws The signal's abort reason if it is aborted while waiting
+   */
+  run<T>(key: string, request: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    let entry = this.inFlight.get(key);
+    if (entry) {
+      this.coalesced++;
+    } else {
+      this.started++;
+      const controller = new AbortController();
+      const started: InFlightRequest = {
+        controller,
+        waiting: 0,
+        promise: request(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === started) this.inFlight.delete(key);
+        }),
+      };
+      entry = started;
+      this.inFlight.set(key, entry);
+    }
+    entry.waiting++;
+
+    if (!signal) return entry.promise as Promise<T>;
+    const shared = entry;
+    return waitUnlessAborted(shared.promise as Promise<T>, signal, () => {
+      shared.waiting--;
+      if (shared.waiting > 0) return;
+      // Nobody wants the result any more; later callers start a new request
+      if (this.inFlight.get(key) === shared) this.inFlight.delete(key);
+      shared.controller.abort(signal.reason);
+    });
+  }
+
+  /**
+   * Get how many requests were sent and how many were saved
+   */
+  getStats(): CoalescingStats {
+    return {
+      started: this.started,
+      coalesced: this.coalesced,
+      inFlight: this.inFlight.size,
+    };
+  }
+}
+
+/**
+ * Wait for a promise, giving up early if the signal is aborted
+ */
+function waitUnlessAborted<T>(promise: Promise<T>, signal: AbortSignal, onAbort: () => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      reject(signal.reason);
+      onAbort();
+    };
+    signal.addEventListener("abort", abort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", abort);
+    });
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * Diagnostics
+ *
+ * Runs registered health checks and reports the outcome:
+ * - checks have a severity: a failing "error" check fails the report, a
+ *   failing "warning" check is only reported
+ * - checks can depend on other checks and are skipped unless those passed
+ * - reports render as JSON or as JUnit XML for CI systems
+ */
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticStatus = "pass" | "fail" | "warn" | "skip";
+
+/**
+ * What a check returns when it completes; throwing an error fails the check
+ */
+export interface DiagnosticOutcome {
+  message?: string;
+  details?: Record<string, unknown>;
+  skipped?: boolean;  // The check does not apply, e.g. nothing is configured for it
+}
+
+/**
+ * A registered health check
+ */
+export interface DiagnosticCheck {
+  id: string;
+  description: string;
+  severity: DiagnosticSeverity;
+  dependsOn?: string[];  // IDs of checks that must pass first
+  timeoutMs?: number;  // Overrides the runner's timeout
+  run(context: { signal: AbortSignal }): Promise<DiagnosticOutcome | void>;
+}
+
+/**
+ * Outcome of a single check
+ */
+export interface DiagnosticResult {
+  id: string;
+  description: string;
+  severity: DiagnosticSeverity;
+  status: DiagnosticStatus;
+  message?: string;
+  details?: Record<string, unknown>;
+  error?: { name: string; message: string; code?: string; status?: number };
+  durationMs: number;
+}
+
+/**
+ * Outcome of a diagnostics run
+ */
+export interface DiagnosticsReport {
+  name: string;
+  ok: boolean;  // False if any "error" check failed
+  startedAt: string;
+  durationMs: number;
+  summary: { total: number; passed: number; failed: number; warnings: number; skipped: number };
+  results: DiagnosticResult[];
+}
+
+/**
+ * Options for a diagnostics runner
+ */
+export interface DiagnosticsRunnerOptions {
+  name?: string;  // Report and JUnit suite name
+  timeoutMs?: number;  // Per check (default 15 seconds)
+  onResult?: (result: DiagnosticResult) => void;  // Called as each check finishes
+}
+
+const DEFAULT_CHECK_TIMEOUT_MS = 15000;
+
+/**
+ * Registry and runner for health checks
+ */
+export class DiagnosticsRunner {
+  private checks: DiagnosticCheck[] = [];
+
+  constructor(private options: DiagnosticsRunnerOptions = {}) {}
+
+  /**
+   * Register a check; checks run in registration order, after their dependencies
+   */
+  register(...checks: DiagnosticCheck[]): this {
+    for (const check of checks) {
+      if (this.checks.some(existing => existing.id === check.id)) {
+        throw new Error(`A diagnostic check with ID "${check.id}" is already registered`);
+      }
+      this.checks.push(check);
+    }
+    return this;
+  }
+
+  /**
+   * Get the registered checks
+   */
+  getChecks(): DiagnosticCheck[] {
+    return [...this.checks];
+  }
+
+  /**
+   * Run every check and build a report
+   */
+  async run(): Promise<DiagnosticsReport> {
+    const startedAt = new Date();
+    const results = new Map<string, DiagnosticResult>();
+
+    for (const check of this.orderChecks()) {
+      const blocker = (check.dependsOn || []).find(id => results.get(id)?.status !== "pass");
+      const result = blocker
+        ? this.skipped(check, `Skipped because "${blocker}" did not pass`)
+        : await this.runCheck(check);
+
+      results.set(check.id, result);
+      this.options.onResult?.(result);
+    }
+
+    const ordered = [...results.values()];
+    const count = (status: DiagnosticStatus) => ordered.filter(result => result.status === status).length;
+    return {
+      name: this.options.name || "diagnostics",
+      ok: count("fail") === 0,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      summary: {
+        total: ordered.length,
+        passed: count("pass"),
+        failed: count("fail"),
+        warnings: count("warn"),
+        skipped: count("skip"),
+      },
+      results: ordered,
+    };
+  }
+
+  private async runCheck(check: DiagnosticCheck): Promise<DiagnosticResult> {
+    const startedAt = Date.now();
+    const timeoutMs = check.timeoutMs ?? this.options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+    });
+
+    try {
+      const outcome = (await Promise.race([check.run({ signal: controller.signal }), timeout])) || {};
+      return {
+        ...this.describe(check),
+        status: outcome.skipped ? "skip" : "pass",
+        message: outcome.message,
+        details: outcome.details,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      const { name, message, code, status } = error as Error & { code?: string; status?: number };
+      return {
+        ...this.describe(check),
+        status: check.severity === "error" ? "fail" : "warn",
+        message: message || String(error),
+        error: { name: name || "Error", message: message || String(error), code, status },
+        durationMs: Date.now() - startedAt,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private skipped(check: DiagnosticCheck, message: string): DiagnosticResult {
+    return { ...this.describe(check), status: "skip", message, durationMs: 0 };
+  }
+
+  private describe(check: DiagnosticCheck): Pick<DiagnosticResult, "id" | "description" | "severity"> {
+    return { id: check.id, description: check.description, severity: check.severity };
+  }
+
+  /**
+   * Order checks so every check runs after its dependencies
+   */
+  private orderChecks(): DiagnosticCheck[] {
+    const byId = new Map(this.checks.map(check => [check.id, check]));
+    const ordered: DiagnosticCheck[] = [];
+    const state = new Map<string, "visiting" | "done">();
+
+    const visit = (check: DiagnosticCheck) => {
+      if (state.get(check.id) === "done") return;
+      if (state.get(check.id) === "visiting") {
+        throw new Error(`Diagnostic check "${check.id}" depends on itself`);
+      }
+
+      state.set(check.id, "visiting");
+      for (const id of check.dependsOn || []) {
+        const dependency = byId.get(id);
+        if (!dependency) {
+          throw new Error(`Diagnostic check "${check.id}" depends on unknown check "${id}"`);
+        }
+        visit(dependency);
+      }
+      state.set(check.id, "done");
+      ordered.push(check);
+    };
+
+    this.checks.forEach(visit);
+    return ordered;
+  }
+}
+
+/**
+ * Render a report as JUnit XML
+ * Failed checks become failures, skipped checks are skipped, and warnings
+ * pass with the warning in system-out, so they don't fail CI.
+ */
+export function toJUnitXml(report: DiagnosticsReport): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const suite = escapeXml(report.name);
+  const { total, failed, skipped } = report.summary;
+
+  const cases = report.results.map(result => {
+    const open = `    <testcase classname="${suite}" name="${escapeXml(result.id)}" time="${seconds(result.durationMs)}"`;
+    const message = escapeXml(result.message || "");
+
+    switch (result.status) {
+      case "fail":
+        return `${open}>\n      <failure message="${message}" type="${escapeXml(result.error?.name || "Error")}">${escapeXml(result.description)}: ${message}</failure>\n    </testcase>`;
+      case "skip":
+        return `${open}>\n      <skipped message="${message}"/>\n    </testcase>`;
+      case "warn":
+        return `${open}>\n      <system-out>WARNING: ${message}</system-out>\n    </testcase>`;
+      default:
+        return `${open}/>`;
+    }
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${suite}" tests="${total}" failures="${failed}" skipped="${skipped}" time="${seconds(report.durationMs)}">`,
+    `  <testsuite name="${suite}" tests="${total}" failures="${failed}" errors="0" skipped="${skipped}" timestamp="${report.startedAt}" time="${seconds(report.durationMs)}">`,
+    ...cases,
+    `  </testsuite>`,
+    `</testsuites>`,
+  ].join("\n") + "\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
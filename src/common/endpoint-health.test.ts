@@ -0,0 +1,133 @@
+import { EndpointHealthTracker } from "./endpoint-health.js";
+
+const PRIMARY = "https://primary.example";
+const FALLBACK = "https://fallback.example";
+const START = Date.UTC(2024, 0, 1);
+
+describe("EndpointHealthTracker", () => {
+  let tracker: EndpointHealthTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    tracker = new EndpointHealthTracker([PRIMARY, FALLBACK], { failureThreshold: 3, resetTimeoutMs: 1000, windowSize: 4 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function stateOf(endpoint: string) {
+    return tracker.getHealth().find(health => health.endpoint === endpoint)!;
+  }
+
+  function fail(endpoint: string, times: number): void {
+    for (let i = 0; i < times; i++) {
+      tracker.recordAttempt(endpoint);
+      tracker.recordFailure(endpoint);
+    }
+  }
+
+  it("stays closed below the failure threshold", () => {
+    fail(PRIMARY, 2);
+
+    expect(stateOf(PRIMARY).state).toBe("closed");
+    expect(tracker.getOrder()).toEqual([PRIMARY, FALLBACK]);
+  });
+
+  it("opens after consecutive failures and moves the endpoint to the end", () => {
+    fail(PRIMARY, 3);
+
+    expect(stateOf(PRIMARY)).toMatchObject({ state: "open", consecutiveFailures: 3, openedAt: new Date(START).toISOString() });
+    expect(tracker.isAvailable(PRIMARY)).toBe(false);
+    expect(tracker.getOrder()).toEqual([FALLBACK, PRIMARY]);
+  });
+
+  it("doesn't count failures separated by a success as consecutive", () => {
+    fail(PRIMARY, 2);
+    tracker.recordSuccess(PRIMARY, 10);
+    fail(PRIMARY, 2);
+
+    expect(stateOf(PRIMARY).state).toBe("closed");
+  });
+
+  it("lets a single trial request through once the reset timeout has passed", () => {
+    fail(PRIMARY, 3);
+    jest.advanceTimersByTime(999);
+    expect(tracker.isAvailable(PRIMARY)).toBe(false);
+
+    jest.advanceTimersByTime(1);
+    expect(tracker.isAvailable(PRIMARY)).toBe(true);
+    expect(stateOf(PRIMARY).state).toBe("half-open");
+
+    tracker.recordAttempt(PRIMARY);
+    expect(tracker.isAvailable(PRIMARY)).toBe(false);
+
+    tracker.cancelAttempt(PRIMARY);
+    expect(tracker.isAvailable(PRIMARY)).toBe(true);
+  });
+
+  it("closes a half-open circuit when the trial succeeds", () => {
+    fail(PRIMARY, 3);
+    jest.advanceTimersByTime(1000);
+    tracker.isAvailable(PRIMARY);
+    tracker.recordAttempt(PRIMARY);
+    tracker.recordSuccess(PRIMARY, 20);
+
+    expect(stateOf(PRIMARY)).toMatchObject({ state: "closed", consecutiveFailures: 0, openedAt: undefined });
+  });
+
+  it("reopens a half-open circuit when the trial fails", () => {
+    fail(PRIMARY, 3);
+    jest.advanceTimersByTime(1000);
+    tracker.isAvailable(PRIMARY);
+    fail(PRIMARY, 1);
+
+    expect(stateOf(PRIMARY)).toMatchObject({ state: "open", openedAt: new Date(START + 1000).toISOString() });
+    jest.advanceTimersByTime(999);
+    expect(tracker.isAvailable(PRIMARY)).toBe(false);
+  });
+
+  it("starts at the endpoint that last succeeded", () => {
+    tracker.recordSuccess(FALLBACK, 10);
+
+    expect(tracker.getOrder()).toEqual([FALLBACK, PRIMARY]);
+    expect(stateOf(FALLBACK).preferred).toBe(true);
+
+    tracker.recordSuccess(PRIMARY, 10);
+    expect(tracker.getOrder()).toEqual([PRIMARY, FALLBACK]);
+  });
+
+  it("keeps preferring an endpoint until its circuit opens", () => {
+    tracker.recordSuccess(FALLBACK, 10);
+    fail(FALLBACK, 2);
+    expect(tracker.getOrder()).toEqual([FALLBACK, PRIMARY]);
+
+    fail(FALLBACK, 1);
+    expect(stateOf(FALLBACK).preferred).toBe(false);
+    expect(tracker.getOrder()).toEqual([PRIMARY, FALLBACK]);
+  });
+
+  it("computes the success rate over the recent window only", () => {
+    expect(stateOf(PRIMARY).successRate).toBe(1);
+
+    fail(PRIMARY, 2);
+    tracker.recordSuccess(PRIMARY, 10);
+    tracker.recordSuccess(PRIMARY, 10);
+    expect(stateOf(PRIMARY).successRate).toBe(0.5);
+
+    tracker.recordSuccess(PRIMARY, 10);
+    tracker.recordSuccess(PRIMARY, 10);
+    expect(stateOf(PRIMARY)).toMatchObject({ successRate: 1, totalRequests: 6, totalFailures: 2 });
+  });
+
+  it("reports latency percentiles once there are enough samples", () => {
+    tracker = new EndpointHealthTracker([PRIMARY], { windowSize: 5 });
+    for (const responseTime of [60, 10, 20, 30]) tracker.recordSuccess(PRIMARY, responseTime);
+    expect(stateOf(PRIMARY).p95ResponseTime).toBeUndefined();
+
+    tracker.recordSuccess(PRIMARY, 40);
+    tracker.recordSuccess(PRIMARY, 50);
+    // The first sample has left the window, but still counts towards the average
+    expect(stateOf(PRIMARY)).toMatchObject({ averageResponseTime: 35, p95ResponseTime: 50 });
+  });
+});
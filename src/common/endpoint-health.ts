@@ -0,0 +1,255 @@
+/**
+ * Endpoint Health Tracking
+ *
+ * Tracks the health of a primary endpoint and its fallbacks with a circuit
+ * breaker per endpoint:
+ * - closed: requests flow normally
+ * - open: the endpoint failed repeatedly and is skipped until the reset timeout passes
+ * - half-open: one trial request is let through; success closes the circuit,
+ *   failure opens it again
+ *
+ * Requests start at the last endpoint that answered successfully ("sticky"
+ * selection) instead of always starting at the primary.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker settings
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;  // Consecutive failures that open the circuit
+  resetTimeoutMs?: number;  // How long an open circuit waits before a trial request
+  windowSize?: number;  // Number of recent outcomes used for the success rate
+}
+
+/**
+ * Observable health of a single endpoint
+ */
+export interface EndpointHealthSnapshot {
+  endpoint: string;
+  state: CircuitState;
+  preferred: boolean;
+  successRate: number;  // Share of successful requests in the recent window, 1 if none were made
+  totalRequests: number;
+  totalFailures: number;
+  consecutiveFailures: number;
+  averageResponseTime?: number;
+  p95ResponseTime?: number;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  openedAt?: string;
+}
+
+/**
+ * Response times needed before latency percentiles are reported
+ */
+const MIN_LATENCY_SAMPLES = 5;
+
+/**
+ * Default circuit breaker settings
+ */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000, // 30 seconds
+  windowSize: 50,
+};
+
+interface EndpointState {
+  state: CircuitState;
+  outcomes: boolean[];
+  latencies: number[];
+  totalRequests: number;
+  totalFailures: number;
+  consecutiveFailures: number;
+  totalResponseTime: number;
+  successCount: number;
+  lastSuccessAt?: number;
+  lastFailureAt?: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+/**
+ * Tracks endpoint health and decides which endpoint to try next
+ */
+export class EndpointHealthTracker {
+  private states = new Map<string, EndpointState>();
+  private preferredEndpoint?: string;
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(private endpoints: string[], options: CircuitBreakerOptions = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+
+    for (const endpoint of endpoints) {
+      this.states.set(endpoint, {
+        state: "closed",
+        outcomes: [],
+        latencies: [],
+        totalRequests: 0,
+        totalFailures: 0,
+        consecutiveFailures: 0,
+        totalResponseTime: 0,
+        successCount: 0,
+        trialInFlight: false,
+      });
+    }
+  }
+
+  /**
+   * Whether an endpoint is one of the tracked endpoints
+   */
+  has(endpoint: string): boolean {
+    return this.states.has(endpoint);
+  }
+
+  /**
+   * Endpoints in the order they should be tried
+   * The preferred endpoint comes first, then the others in configured order.
+   * Endpoints with an open circuit are moved to the end rather than dropped,
+   * so requests are still attempted when every circuit is open.
+   */
+  getOrder(): string[] {
+    const ordered = this.preferredEndpoint
+      ? [this.preferredEndpoint, ...this.endpoints.filter(endpoint => endpoint !== this.preferredEndpoint)]
+      : [...this.endpoints];
+
+    const available = ordered.filter(endpoint => this.isAvailable(endpoint));
+    const unavailable = ordered.filter(endpoint => !available.includes(endpoint));
+
+    return [...available, ...unavailable];
+  }
+
+  /**
+   * Check whether requests may be sent to an endpoint
+   * Moves an open circuit to half-open once its reset timeout has passed.
+   */
+  isAvailable(endpoint: string): boolean {
+    const state = this.states.get(endpoint);
+    if (!state) return true;
+
+    if (state.state === "open" && Date.now() - (state.openedAt ?? 0) >= this.options.resetTimeoutMs) {
+      state.state = "half-open";
+      state.trialInFlight = false;
+    }
+
+    if (state.state === "half-open") return !state.trialInFlight;
+    return state.state === "closed";
+  }
+
+  /**
+   * Mark the start of a request; a half-open endpoint allows only one at a time
+   */
+  recordAttempt(endpoint: string): void {
+    const state = this.states.get(endpoint);
+    if (state?.state === "half-open") state.trialInFlight = true;
+  }
+
+  /**
+   * Release a request that was cancelled before it had an outcome
+   */
+  cancelAttempt(endpoint: string): void {
+    const state = this.states.get(endpoint);
+    if (state) state.trialInFlight = false;
+  }
+
+  /**
+   * Record a successful request; closes the circuit and makes the endpoint preferred
+   */
+  recordSuccess(endpoint: string, responseTime: number): void {
+    const state = this.states.get(endpoint);
+    if (!state) return;
+
+    this.recordOutcome(state, true);
+    state.consecutiveFailures = 0;
+    state.totalResponseTime += responseTime;
+    state.successCount++;
+    state.latencies.push(responseTime);
+    if (state.latencies.length > this.options.windowSize) {
+      state.latencies.shift();
+    }
+    state.lastSuccessAt = Date.now();
+    state.state = "closed";
+    state.openedAt = undefined;
+    state.trialInFlight = false;
+
+    this.preferredEndpoint = endpoint;
+  }
+
+  /**
+   * Record a failed request; opens the circuit after too many consecutive failures
+   */
+  recordFailure(endpoint: string): void {
+    const state = this.states.get(endpoint);
+    if (!state) return;
+
+    this.recordOutcome(state, false);
+    state.totalFailures++;
+    state.consecutiveFailures++;
+    state.lastFailureAt = Date.now();
+
+    if (state.state === "half-open" || state.consecutiveFailures >= this.options.failureThreshold) {
+      state.state = "open";
+      state.openedAt = Date.now();
+    }
+    state.trialInFlight = false;
+
+    // Stop preferring an endpoint once it is failing
+    if (this.preferredEndpoint === endpoint && state.state === "open") {
+      this.preferredEndpoint = undefined;
+    }
+  }
+
+  /**
+   * Get a percentile of an endpoint's recent response times
+   * Returns undefined until enough successful requests have been seen.
+   *
+   * @param endpoint Tracked endpoint
+   * @param percentile Percentile between 0 and 100
+   */
+  getLatencyPercentile(endpoint: string, percentile: number): number | undefined {
+    const latencies = this.states.get(endpoint)?.latencies;
+    if (!latencies || latencies.length < MIN_LATENCY_SAMPLES) return undefined;
+
+    const sorted = [...latencies].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+
+  /**
+   * Get a snapshot of the health of every endpoint
+   */
+  getHealth(): EndpointHealthSnapshot[] {
+    return this.endpoints.map(endpoint => {
+      // Refresh open circuits whose reset timeout has passed
+      this.isAvailable(endpoint);
+      const state = this.states.get(endpoint)!;
+      const successes = state.outcomes.filter(Boolean).length;
+
+      return {
+        endpoint,
+        state: state.state,
+        preferred: endpoint === this.preferredEndpoint,
+        successRate: state.outcomes.length > 0 ? successes / state.outcomes.length : 1,
+        totalRequests: state.totalRequests,
+        totalFailures: state.totalFailures,
+        consecutiveFailures: state.consecutiveFailures,
+        averageResponseTime: state.successCount > 0
+          ? Math.round(state.totalResponseTime / state.successCount)
+          : undefined,
+        p95ResponseTime: this.getLatencyPercentile(endpoint, 95),
+        lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : undefined,
+        lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : undefined,
+        openedAt: state.openedAt ? new Date(state.openedAt).toISOString() : undefined,
+      };
+    });
+  }
+
+  private recordOutcome(state: EndpointState, success: boolean): void {
+    state.totalRequests++;
+    state.outcomes.push(success);
+    if (state.outcomes.length > this.options.windowSize) {
+      state.outcomes.shift();
+    }
+  }
+}
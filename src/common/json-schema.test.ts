@@ -0,0 +1,253 @@
+import { JsonSchema, formatSchemaIssues, validateJsonSchema } from "./json-schema.js";
+
+function issues(value: unknown, schema: JsonSchema): string[] {
+  return validateJsonSchema(value, schema).errors.map(issue => `${issue.path}: ${issue.message}`);
+}
+
+describe("validateJsonSchema", () => {
+  describe("types and values", () => {
+    it.each<[unknown, JsonSchema, boolean]>([
+      [1, { type: "integer" }, true],
+      [1.5, { type: "integer" }, false],
+      [1, { type: "number" }, true],
+      [null, { type: ["string", "null"] }, true],
+      [[], { type: "object" }, false],
+      ["b", { enum: ["a", "b"] }, true],
+      [{ a: [1] }, { enum: [{ a: [1] }] }, true],
+      ["c", { const: "b" }, false],
+      [5, { minimum: 5, maximum: 5 }, true],
+      [5, { exclusiveMinimum: 5 }, false],
+      [5, { exclusiveMaximum: 5 }, false],
+      [0.3, { multipleOf: 0.1 }, true],
+      [0.35, { multipleOf: 0.1 }, false],
+      [-9, { multipleOf: 3 }, true],
+      ["😀😀", { maxLength: 2 }, true],
+      ["ab", { minLength: 3 }, false],
+    ])("checks %j against %j", (value, schema, valid) => {
+      expect(validateJsonSchema(value, schema).valid).toBe(valid);
+    });
+
+    it("stops at a type mismatch instead of checking other keywords", () => {
+      expect(issues("1", { type: "number", minimum: 5 })).toEqual([": must be of type number, got string"]);
+    });
+  });
+
+  describe("patterns", () => {
+    it("checks strings against patterns", () => {
+      expect(issues("abc", { pattern: "^[a-z]+$" })).toEqual([]);
+      expect(issues("ABC", { pattern: "^[a-z]+$" })).toEqual([": must match the pattern ^[a-z]+$"]);
+    });
+
+    it("supports Unicode property escapes", () => {
+      expect(validateJsonSchema("é", { pattern: "^\\p{L}$" }).valid).toBe(true);
+    });
+
+    it("falls back to no flags for patterns that are only valid without the u flag", () => {
+      expect(validateJsonSchema("a-", { pattern: "^[\\w-]+$" }).valid).toBe(true);
+    });
+
+    it("skips patterns JavaScript can't parse", () => {
+      expect(validateJsonSchema("anything", { pattern: "(?P<name>a)" }).valid).toBe(true);
+      expect(validateJsonSchema(5, { pattern: "(" }).valid).toBe(true);
+    });
+  });
+
+  describe("arrays", () => {
+    it("checks lengths, uniqueness and items", () => {
+      const schema: JsonSchema = { type: "array", items: { type: "string" }, minItems: 1, maxItems: 3, uniqueItems: true };
+
+      expect(issues(["a", 1, "a"], schema)).toEqual([
+        ": must not contain duplicate items",
+        "[1]: must be of type string, got integer",
+      ]);
+      expect(issues([], schema)).toEqual([": must contain at least 1 items"]);
+    });
+
+    it("validates tuples by position and leaves extra items alone", () => {
+      const schema: JsonSchema = { type: "array", items: [{ type: "string" }, { type: "number" }] };
+
+      expect(issues(["a", 1, { extra: true }], schema)).toEqual([]);
+      expect(issues([1, "a"], schema)).toEqual(["[0]: must be of type string, got integer", "[1]: must be of type number, got string"]);
+    });
+  });
+
+  describe("objects", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        prompt: { type: "string" },
+        options: {
+          type: "object",
+          properties: { temperature: { type: "number", maximum: 2 } },
+          additionalProperties: false,
+        },
+      },
+      required: ["prompt"],
+      additionalProperties: { type: "boolean" },
+      maxProperties: 3,
+    };
+
+    it("reports every issue with its path", () => {
+      expect(issues({ options: { temperature: 3, top_k: 5 }, stream: "yes" }, schema)).toEqual([
+        "prompt: is required",
+        "options.temperature: must be <= 2",
+        "options.top_k: is not an allowed property",
+        "stream: must be of type boolean, got string",
+      ]);
+    });
+
+    it("counts properties", () => {
+      expect(issues({ prompt: "a", a: true, b: true, c: true }, schema)).toEqual([": must have at most 3 properties"]);
+      expect(issues({}, { minProperties: 1 })).toEqual([": must have at least 1 properties"]);
+    });
+  });
+
+  describe("defaults", () => {
+    it("fills in missing properties without changing the input or sharing the schema's default", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: { stream: { default: false }, stop: { default: ["\n"] }, prompt: { type: "string" } },
+      };
+      const input = { prompt: "hi" };
+
+      const first = validateJsonSchema<any>(input, schema).value;
+      first.stop.push("END");
+
+      expect(first).toEqual({ prompt: "hi", stream: false, stop: ["\n", "END"] });
+      expect(input).toEqual({ prompt: "hi" });
+      expect(validateJsonSchema<any>({}, schema).value.stop).toEqual(["\n"]);
+    });
+
+    it("fills in the defaults of a missing nested object", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: {
+          sampling: {
+            type: "object",
+            properties: {
+              temperature: { type: "number", default: 0.7 },
+              penalties: { type: "object", properties: { presence: { default: 0 }, frequency: { type: "number" } } },
+              seed: { type: "integer" },
+            },
+          },
+          plain: { type: "object", properties: { name: { type: "string" } } },
+        },
+      };
+
+      expect(validateJsonSchema({}, schema).value).toEqual({
+        sampling: { temperature: 0.7, penalties: { presence: 0 } },
+      });
+      expect(validateJsonSchema({ sampling: { temperature: 1 } }, schema).value).toEqual({
+        sampling: { temperature: 1, penalties: { presence: 0 } },
+      });
+    });
+
+    it("fills in nested defaults through references", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: { options: { $ref: "#/definitions/Options" } },
+        definitions: {
+          Options: { type: "object", properties: { retries: { default: 2 }, next: { $ref: "#/definitions/Options" } } },
+        },
+      };
+
+      expect(validateJsonSchema({}, schema).value).toEqual({ options: { retries: 2 } });
+    });
+
+    it("uses a property's own default over the defaults of its properties", () => {
+      const schema: JsonSchema = {
+        properties: { options: { default: null, properties: { retries: { default: 2 } } } },
+      };
+
+      expect(validateJsonSchema({}, schema).value).toEqual({ options: null });
+    });
+  });
+
+  describe("references", () => {
+    it("resolves definitions and $defs, including escaped names", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: { role: { $ref: "#/definitions/Role" }, name: { $ref: "#/$defs/a~1b" } },
+        definitions: { Role: { enum: ["user", "assistant"] } },
+        $defs: { "a/b": { type: "string" } },
+      };
+
+      expect(issues({ role: "system", name: 1 }, schema)).toEqual([
+        'role: must be one of "user", "assistant"',
+        "name: must be of type string, got integer",
+      ]);
+    });
+
+    it("reports references it can't resolve", () => {
+      expect(issues(1, { $ref: "#/definitions/Missing" })).toEqual([": cannot resolve schema reference #/definitions/Missing"]);
+      expect(issues(1, { $ref: "https://example.com/schema.json" })).toEqual([
+        ": cannot resolve schema reference https://example.com/schema.json",
+      ]);
+    });
+
+    it("validates recursive schemas one level of the value at a time", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: { name: { type: "string" }, children: { type: "array", items: { $ref: "#" } } },
+      };
+
+      expect(issues({ name: "a", children: [{ name: "b", children: [{ name: 3 }] }] }, schema)).toEqual([
+        "children[0].children[0].name: must be of type string, got integer",
+      ]);
+    });
+
+    it.each<[string, JsonSchema]>([
+      ["the root", { $ref: "#" }],
+      ["a definition", { $ref: "#/definitions/A", definitions: { A: { $ref: "#/definitions/A" } } }],
+      ["a chain of definitions", { $ref: "#/definitions/A", definitions: { A: { $ref: "#/definitions/B" }, B: { anyOf: [{ $ref: "#/definitions/A" }] } } }],
+      ["composition", { allOf: [{ $ref: "#" }] }],
+    ])("reports a reference back to %s instead of recursing forever", (_, schema) => {
+      const result = validateJsonSchema({ a: 1 }, schema);
+
+      expect(result.valid).toBe(false);
+      expect(formatSchemaIssues(result.errors)).toMatch(/refers back to itself|does not match any/);
+    });
+  });
+
+  describe("composition", () => {
+    it("applies every allOf schema", () => {
+      const schema: JsonSchema = { allOf: [{ type: "object", properties: { a: { default: 1 } } }, { required: ["b"] }] };
+      const result = validateJsonSchema({}, schema);
+
+      expect(result.value).toEqual({ a: 1 });
+      expect(formatSchemaIssues(result.errors)).toBe("- b: is required");
+    });
+
+    it("uses the first matching anyOf schema, with its defaults", () => {
+      const schema: JsonSchema = {
+        anyOf: [
+          { type: "string" },
+          { type: "object", properties: { kind: { const: "text" }, text: { type: "string" }, format: { default: "plain" } }, required: ["text"] },
+          { type: "object", properties: { kind: { const: "image" }, format: { default: "png" } } },
+        ],
+      };
+
+      expect(validateJsonSchema("hi", schema)).toEqual({ valid: true, value: "hi", errors: [] });
+      expect(validateJsonSchema({ text: "hi" }, schema).value).toEqual({ text: "hi", format: "plain" });
+      expect(validateJsonSchema({ kind: "image" }, schema).value).toEqual({ kind: "image", format: "png" });
+      expect(issues(1, schema)).toEqual([": does not match any of the allowed schemas"]);
+    });
+
+    it("requires exactly one oneOf schema to match", () => {
+      const schema: JsonSchema = { oneOf: [{ type: "integer" }, { type: "number", minimum: 0 }] };
+
+      expect(validateJsonSchema(-1, schema).valid).toBe(true);
+      expect(issues(1, schema)).toEqual([": matches more than one of the allowed schemas"]);
+      expect(issues("1", schema)).toEqual([": does not match any of the allowed schemas"]);
+    });
+  });
+});
+
+describe("formatSchemaIssues", () => {
+  it("puts one issue per line and names the root", () => {
+    expect(formatSchemaIssues([
+      { path: "", message: "must be of type object, got string" },
+      { path: "messages[0].role", message: "is required" },
+    ])).toBe("- (root): must be of type object, got string\n- messages[0].role: is required");
+  });
+});
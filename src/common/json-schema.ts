@@ -0,0 +1,439 @@
+/**
+ * JSON Schema Validation
+ *
+ * Validates values against a subset of JSON Schema draft-07:
+ * - Types (including type lists for nullable values)
+ * - Required properties, additionalProperties and property counts
+ * - Enums and const values
+ * - Numeric ranges, string lengths and patterns, array lengths and uniqueness
+ * - Nested objects and arrays, local $ref, allOf/anyOf/oneOf
+ * - Default values, which are filled in for missing properties, including
+ *   the defaults of nested objects
+ *
+ * Other keywords (such as format), and patterns JavaScript can't parse, are
+ * ignored.
+ */
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * The supported subset of a JSON Schema document
+ */
+export interface JsonSchema {
+  $ref?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+
+  // Arrays
+  items?: JsonSchema | JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  // Objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  minProperties?: number;
+  maxProperties?: number;
+
+  // Composition
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+}
+
+/**
+ * A single validation failure
+ */
+export interface SchemaIssue {
+  path: string;  // Location of the value, e.g. "messages[0].role"; empty for the root
+  message: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface SchemaValidationResult<T = unknown> {
+  valid: boolean;
+  value: T;  // The value with defaults filled in
+  errors: SchemaIssue[];
+}
+
+/**
+ * Get the JSON type of a value
+ */
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Check whether a value has one of the allowed types
+ */
+function matchesType(value: unknown, types: JsonSchemaType[]): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return types.includes(actual) || (actual === "integer" && types.includes("number"));
+}
+
+/**
+ * Deep equality for JSON values, used by enum, const and uniqueItems
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+
+  return aKeys.every(key => jsonEqual((a as any)[key], (b as any)[key]));
+}
+
+/**
+ * Copy a default value so filled-in defaults never share state with the schema
+ */
+function cloneDefault<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Join a property name or array index onto a path
+ */
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Resolve a local reference such as "#/definitions/Message"
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+
+  let target: any = root;
+  for (const part of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~");
+    target = target?.[key];
+  }
+
+  return target && typeof target === "object" ? target : undefined;
+}
+
+/**
+ * Get the value of a missing property: its default, or else the defaults of
+ * its own properties if it is an object that has any
+ *
+ * @param followedRefs References already followed, so self-referencing schemas end
+ */
+function getDefault(schema: JsonSchema, root: JsonSchema, followedRefs: Set<string>): unknown {
+  if (schema.$ref) {
+    const resolved = followedRefs.has(schema.$ref) ? undefined : resolveRef(schema.$ref, root);
+    return resolved && getDefault(resolved, root, new Set(followedRefs).add(schema.$ref));
+  }
+  if (schema.default !== undefined) return cloneDefault(schema.default);
+  if (!schema.properties) return undefined;
+
+  const defaults: Record<string, unknown> = {};
+  for (const [key, propertySchema] of Object.entries(schema.properties)) {
+    const value = getDefault(propertySchema, root, followedRefs);
+    if (value !== undefined) defaults[key] = value;
+  }
+  return Object.keys(defaults).length > 0 ? defaults : undefined;
+}
+
+/**
+ * Validate a value and return it with defaults applied, collecting issues along the way
+ *
+ * @param followedRefs References already followed for this value; following
+ *   one again would never end, e.g. for { "$ref": "#" }
+ */
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaIssue[],
+  followedRefs: Set<string> = new Set()
+): unknown {
+  if (schema.$ref) {
+    if (followedRefs.has(schema.$ref)) {
+      errors.push({ path, message: `schema reference ${schema.$ref} refers back to itself` });
+      return value;
+    }
+    const resolved = resolveRef(schema.$ref, root);
+    if (!resolved) {
+      errors.push({ path, message: `cannot resolve schema reference ${schema.$ref}` });
+      return value;
+    }
+    return validateNode(value, resolved, path, root, errors, new Set(followedRefs).add(schema.$ref));
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      value = validateNode(value, subschema, path, root, errors, followedRefs);
+    }
+  }
+
+  if (schema.anyOf || schema.oneOf) {
+    const options = (schema.anyOf || schema.oneOf)!;
+    const matches = options
+      .map(subschema => {
+        const subErrors: SchemaIssue[] = [];
+        const result = validateNode(value, subschema, path, root, subErrors, followedRefs);
+        return { result, valid: subErrors.length === 0 };
+      })
+      .filter(option => option.valid);
+
+    if (matches.length === 0) {
+      errors.push({ path, message: `does not match any of the allowed schemas` });
+      return value;
+    }
+    if (schema.oneOf && matches.length > 1) {
+      errors.push({ path, message: `matches more than one of the allowed schemas` });
+      return value;
+    }
+    value = matches[0].result;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!matchesType(value, types)) {
+      errors.push({ path, message: `must be of type ${types.join(" or ")}, got ${typeOf(value)}` });
+      return value;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => jsonEqual(option, value))) {
+    errors.push({
+      path,
+      message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`,
+    });
+  }
+
+  if (schema.const !== undefined && !jsonEqual(schema.const, value)) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined && !isMultipleOf(value, schema.multipleOf)) {
+      errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+  }
+
+  if (typeof value === "string") {
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters long` });
+    }
+    const pattern = schema.pattern !== undefined ? compilePattern(schema.pattern) : null;
+    if (pattern && !pattern.test(value)) {
+      errors.push({ path, message: `must match the pattern ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    return validateArray(value, schema, path, root, errors);
+  }
+
+  if (value && typeof value === "object") {
+    return validateObject(value as Record<string, unknown>, schema, path, root, errors);
+  }
+
+  return value;
+}
+
+/**
+ * Check divisibility with a tolerance, so 0.3 counts as a multiple of 0.1
+ * despite floating point rounding
+ */
+function isMultipleOf(value: number, multipleOf: number): boolean {
+  const remainder = Math.abs(value % multipleOf);
+  const epsilon = Math.abs(multipleOf) * 1e-9;
+  return remainder < epsilon || Math.abs(multipleOf) - remainder < epsilon;
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile a pattern once, or get null if JavaScript can't parse it
+ * Schemas come from the server and may use another regex dialect, such as
+ * Python's (?P<name>...); such patterns are skipped rather than failing
+ * every call to the cord.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    let compiled: RegExp | null = null;
+    for (const flags of ["u", ""]) {
+      try {
+        compiled = new RegExp(pattern, flags);
+        break;
+      } catch {
+        // Try the next flags
+      }
+    }
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiledPatterns.get(pattern)!;
+}
+
+/**
+ * Validate the items and length of an array
+ */
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaIssue[]
+): unknown[] {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `must contain at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `must contain at most ${schema.maxItems} items` });
+  }
+  if (schema.uniqueItems && value.some((item, i) => value.findIndex(other => jsonEqual(item, other)) !== i)) {
+    errors.push({ path, message: `must not contain duplicate items` });
+  }
+
+  if (!schema.items) return value;
+
+  return value.map((item, index) => {
+    // A list of schemas validates items by position
+    const itemSchema = Array.isArray(schema.items) ? schema.items[index] : schema.items;
+    return itemSchema ? validateNode(item, itemSchema, joinPath(path, index), root, errors) : item;
+  });
+}
+
+/**
+ * Validate the properties of an object and fill in defaults for missing ones
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: SchemaIssue[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...value };
+  const properties = schema.properties || {};
+
+  // Defaults are complete as filled in; validating them again would fill
+  // recursive schemas one more level every time
+  const defaulted = new Set<string>();
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if (result[key] === undefined) {
+      const defaultValue = getDefault(propertySchema, root, new Set());
+      if (defaultValue !== undefined) {
+        result[key] = defaultValue;
+        defaulted.add(key);
+      }
+    }
+  }
+
+  for (const key of schema.required || []) {
+    if (result[key] === undefined) {
+      errors.push({ path: joinPath(path, key), message: `is required` });
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(result)) {
+    if (propertyValue === undefined || defaulted.has(key)) continue;
+
+    const propertyPath = joinPath(path, key);
+    if (properties[key]) {
+      result[key] = validateNode(propertyValue, properties[key], propertyPath, root, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: propertyPath, message: `is not an allowed property` });
+    } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+      result[key] = validateNode(propertyValue, schema.additionalProperties, propertyPath, root, errors);
+    }
+  }
+
+  const count = Object.keys(result).length;
+  if (schema.minProperties !== undefined && count < schema.minProperties) {
+    errors.push({ path, message: `must have at least ${schema.minProperties} properties` });
+  }
+  if (schema.maxProperties !== undefined && count > schema.maxProperties) {
+    errors.push({ path, message: `must have at most ${schema.maxProperties} properties` });
+  }
+
+  return result;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ * The input is not modified; the returned value has defaults filled in.
+ *
+ * @param value Value to validate
+ * @param schema Schema to validate against
+ * @returns Whether the value is valid, the value with defaults, and every issue found
+ */
+export function validateJsonSchema<T = unknown>(
+  value: unknown,
+  schema: JsonSchema
+): SchemaValidationResult<T> {
+  const errors: SchemaIssue[] = [];
+  const result = validateNode(value, schema, "", schema, errors);
+
+  return {
+    valid: errors.length === 0,
+    value: result as T,
+    errors,
+  };
+}
+
+/**
+ * Format validation issues as one line per field
+ */
+export function formatSchemaIssues(errors: SchemaIssue[]): string {
+  return errors
+    .map(issue => `- ${issue.path || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
@@ -0,0 +1,94 @@
+import { LogRecord, Logger, REDACTED, createLogger, createRedactor, redactLogger } from "./logger.js";
+
+describe("createRedactor", () => {
+  const redact = createRedactor();
+
+  it("redacts default secret fields at any depth, ignoring case, dashes and underscores", () => {
+    expect(redact({
+      headers: { Authorization: "Bearer abc", "X-API-Key": "abc", Cookie: "session=abc" },
+      body: { nested: [{ API_KEY: "abc", apikey: "abc", refreshToken: "abc" }] },
+      status: 200,
+    })).toEqual({
+      headers: { Authorization: REDACTED, "X-API-Key": REDACTED, Cookie: REDACTED },
+      body: { nested: [{ API_KEY: REDACTED, apikey: REDACTED, refreshToken: REDACTED }] },
+      status: 200,
+    });
+  });
+
+  it("masks bearer and basic credentials inside strings", () => {
+    expect(redact("Sent with Bearer cpk_abc.def-ghi and Basic dXNlcjpwYXNz")).toBe(
+      `Sent with Bearer ${REDACTED} and Basic ${REDACTED}`
+    );
+  });
+
+  it("masks Chutes API keys inside strings", () => {
+    expect(redact({ message: "Key cpk_0123.abcdef_XYZ-9 was rejected" })).toEqual({
+      message: `Key ${REDACTED} was rejected`,
+    });
+  });
+
+  it("masks credentials in URL query strings and keeps other params", () => {
+    expect(redact("GET https://api.example/x?token=abc&page=2&api_key=def#top")).toBe(
+      `GET https://api.example/x?token=${REDACTED}&page=2&api_key=${REDACTED}#top`
+    );
+    expect(redact("https://api.example/x?access_token=abc")).toBe(`https://api.example/x?access_token=${REDACTED}`);
+  });
+
+  it("redacts configured fields, such as sensitive cord params", () => {
+    const redactParams = createRedactor(["prompt", "user_email"]);
+
+    expect(redactParams({ params: { prompt: "secret plan", userEmail: "a@b.c", max_tokens: 10 } })).toEqual({
+      params: { prompt: REDACTED, userEmail: REDACTED, max_tokens: 10 },
+    });
+    expect(redact({ prompt: "secret plan" })).toEqual({ prompt: "secret plan" });
+  });
+
+  it("reduces errors to their name, message, code and status", () => {
+    const error = Object.assign(new Error("Bearer abc failed"), { code: "AUTH", status: 401, config: { apiKey: "abc" } });
+
+    expect(redact({ error })).toEqual({
+      error: { name: "Error", message: `Bearer ${REDACTED} failed`, code: "AUTH", status: 401 },
+    });
+  });
+
+  it("cuts off circular and deeply nested values", () => {
+    const circular: Record<string, unknown> = { name: "loop" };
+    circular.self = circular;
+    let deep: unknown = "bottom";
+    for (let i = 0; i < 10; i++) deep = { deep };
+
+    expect(redact(circular)).toEqual({ name: "loop", self: "[Circular]" });
+    expect(JSON.stringify(redact(deep))).toContain("[Truncated]");
+    expect(JSON.stringify(createRedactor([], { maxDepth: Infinity })(deep))).toContain("bottom");
+  });
+});
+
+describe("loggers", () => {
+  it("redact messages, context and child bindings before they reach the sink", () => {
+    const records: LogRecord[] = [];
+    const logger = createLogger(record => records.push(record), { level: "debug", redactFields: ["prompt"] });
+
+    logger.child({ token: "abc" }).debug("Calling https://api.example?token=abc", { prompt: "hi", retries: 1 });
+
+    expect(records).toEqual([expect.objectContaining({
+      level: "debug",
+      message: `Calling https://api.example?token=${REDACTED}`,
+      context: { token: REDACTED, prompt: REDACTED, retries: 1 },
+    })]);
+  });
+
+  it("redact entries passed to a caller's logger", () => {
+    const entries: unknown[] = [];
+    const target: Logger = {
+      debug: () => {},
+      info: (message, context) => entries.push({ message, context }),
+      warn: () => {},
+      error: () => {},
+      child: () => target,
+    };
+
+    redactLogger(target, ["prompt"]).info("Key cpk_abc.def", { headers: { authorization: "Bearer abc" }, prompt: "hi" });
+
+    expect(entries).toEqual([{ message: `Key ${REDACTED}`, context: { headers: { authorization: REDACTED }, prompt: REDACTED } }]);
+  });
+});
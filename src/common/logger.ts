@@ -0,0 +1,297 @@
+/**
+ * Structured Logging
+ *
+ * Pluggable logger used by the API utilities and the Chutes client:
+ * - silentLogger discards every entry (the default in library use)
+ * - createConsoleLogger writes text or JSON lines above a minimum level
+ * - createElizaLogger forwards entries to an agent's elizaLogger
+ * - createLogger sends entries to any other sink
+ *
+ * Entries are redacted before they are written: authorization headers, API
+ * keys, bearer tokens and any configured fields never reach the output.
+ */
+
+import { randomUUID } from "crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Logger used throughout the API utilities and clients
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  child(bindings: LogContext): Logger;  // Logger that adds the bindings to every entry, e.g. a correlation ID
+}
+
+/**
+ * A single log entry as passed to a sink
+ */
+export interface LogRecord {
+  level: LogLevel;
+  message: string;
+  timestamp: string;
+  context: LogContext;
+}
+
+/**
+ * Destination for log entries
+ */
+export type LogSink = (record: LogRecord) => void;
+
+/**
+ * Options shared by all loggers
+ */
+export interface LoggerOptions {
+  level?: LogLevel;  // Minimum level that is written
+  redactFields?: string[];  // Field names to redact in addition to DEFAULT_REDACTED_FIELDS
+}
+
+/**
+ * Options for the console logger
+ */
+export interface ConsoleLoggerOptions extends LoggerOptions {
+  format?: "text" | "json";
+}
+
+/**
+ * The parts of Eliza's elizaLogger used by createElizaLogger
+ */
+export interface ElizaLoggerLike {
+  debug(...args: any[]): void;
+  info(...args: any[]): void;
+  warn(...args: any[]): void;
+  error(...args: any[]): void;
+}
+
+/**
+ * Numeric order of log levels
+ */
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Field names that are always redacted, compared without case, dashes or underscores
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "api_key",
+  "x-api-key",
+  "apiKey",
+  "access_token",
+  "refresh_token",
+  "token",
+  "password",
+  "secret",
+];
+
+/**
+ * Replacement for redacted values
+ */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Patterns for secrets embedded in strings, e.g. in error messages or URLs
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/\bcpk_[A-Za-z0-9._-]+/g, REDACTED],
+  [/([?&](?:api[_-]?key|access_token|token)=)[^&\s#]+/gi, `$1${REDACTED}`],
+];
+
+/**
+ * How deep nested log context is walked before it is cut off
+ */
+const MAX_REDACTION_DEPTH = 8;
+
+/**
+ * Options for a redactor
+ */
+export interface RedactorOptions {
+  maxDepth?: number;  // Deeper values become "[Truncated]" (default 8); Infinity keeps every level
+}
+
+function normalizeField(field: string): string {
+  return field.toLowerCase().replace(/[-_]/g, "");
+}
+
+/**
+ * Create a function that returns a redacted copy of a value
+ * Matching object keys are replaced with REDACTED at any depth, and secrets
+ * inside strings are masked. Errors are reduced to their name, message,
+ * code and status.
+ *
+ * @param fields Field names to redact in addition to DEFAULT_REDACTED_FIELDS
+ * @param options Depth limit; log context is cut off, recorded data shouldn't be
+ */
+export function createRedactor(fields: string[] = [], options: RedactorOptions = {}): (value: unknown) => unknown {
+  const redactedFields = new Set([...DEFAULT_REDACTED_FIELDS, ...fields].map(normalizeField));
+  const maxDepth = options.maxDepth ?? MAX_REDACTION_DEPTH;
+
+  const redactValue = (value: unknown, depth: number, seen: WeakSet<object>): unknown => {
+    if (typeof value === "string") {
+      return SECRET_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+    }
+    if (!value || typeof value !== "object") return value;
+    if (seen.has(value)) return "[Circular]";
+    if (depth >= maxDepth) return "[Truncated]";
+    seen.add(value);
+
+    if (value instanceof Error) {
+      const { code, status } = value as Error & { code?: unknown; status?: unknown };
+      return redactValue({ name: value.name, message: value.message, code, status }, depth, seen);
+    }
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return value.map(item => redactValue(item, depth + 1, seen));
+
+    const entries = typeof Headers !== "undefined" && value instanceof Headers
+      ? [...value.entries()]
+      : Object.entries(value);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of entries) {
+      if (item === undefined) continue;
+      result[key] = redactedFields.has(normalizeField(key)) ? REDACTED : redactValue(item, depth + 1, seen);
+    }
+    return result;
+  };
+
+  return (value: unknown) => redactValue(value, 0, new WeakSet());
+}
+
+/**
+ * Create a logger that writes redacted entries to a sink
+ *
+ * @param sink Receives every entry at or above the minimum level
+ * @param options Minimum level ("info" by default) and extra fields to redact
+ */
+export function createLogger(sink: LogSink, options: LoggerOptions = {}): Logger {
+  const minLevel = LOG_LEVELS[options.level || "info"];
+  const redact = createRedactor(options.redactFields);
+
+  const build = (bindings: LogContext): Logger => {
+    const log = (level: LogLevel, message: string, context?: LogContext) => {
+      if (LOG_LEVELS[level] < minLevel) return;
+      sink({
+        level,
+        message: redact(message) as string,
+        timestamp: new Date().toISOString(),
+        context: redact({ ...bindings, ...context }) as LogContext,
+      });
+    };
+
+    return {
+      debug: (message, context) => log("debug", message, context),
+      info: (message, context) => log("info", message, context),
+      warn: (message, context) => log("warn", message, context),
+      error: (message, context) => log("error", message, context),
+      child: (childBindings) => build({ ...bindings, ...childBindings }),
+    };
+  };
+
+  return build({});
+}
+
+/**
+ * Logger that discards every entry
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => silentLogger,
+};
+
+/**
+ * Create a logger that writes to the console
+ * JSON output puts one entry per line, e.g. for log shippers.
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  return createLogger(({ level, message, timestamp, context }) => {
+    if (options.format === "json") {
+      console[level](JSON.stringify({ timestamp, level, message, ...context }));
+      return;
+    }
+
+    const fields = Object.keys(context).length > 0 ? ` ${JSON.stringify(context)}` : "";
+    console[level](`${timestamp} ${level.toUpperCase()} ${message}${fields}`);
+  }, options);
+}
+
+/**
+ * Create a logger that forwards to an agent's elizaLogger
+ * Debug entries are passed on by default, so elizaLogger's own settings
+ * decide whether they are shown.
+ *
+ * @param elizaLogger The elizaLogger exported by @ai16z/eliza
+ */
+export function createElizaLogger(elizaLogger: ElizaLoggerLike, options: LoggerOptions = {}): Logger {
+  return createLogger(({ level, message, context }) => {
+    if (Object.keys(context).length > 0) {
+      elizaLogger[level](message, context);
+    } else {
+      elizaLogger[level](message);
+    }
+  }, { level: "debug", ...options });
+}
+
+/**
+ * Wrap a logger so every entry is redacted before it reaches it
+ * Used for loggers supplied by callers, which may not redact on their own.
+ *
+ * @param logger Logger to wrap; the silent logger is returned as is
+ * @param fields Field names to redact in addition to DEFAULT_REDACTED_FIELDS
+ */
+export function redactLogger(logger: Logger, fields: string[] = []): Logger {
+  if (logger === silentLogger) return logger;
+  const redact = createRedactor(fields);
+
+  const wrap = (target: Logger): Logger => ({
+    debug: (message, context) => target.debug(redact(message) as string, redact(context) as LogContext | undefined),
+    info: (message, context) => target.info(redact(message) as string, redact(context) as LogContext | undefined),
+    warn: (message, context) => target.warn(redact(message) as string, redact(context) as LogContext | undefined),
+    error: (message, context) => target.error(redact(message) as string, redact(context) as LogContext | undefined),
+    child: (bindings) => wrap(target.child(redact(bindings) as LogContext)),
+  });
+
+  return wrap(logger);
+}
+
+/**
+ * Create an ID that ties together the log entries of one call
+ */
+export function createCorrelationId(): string {
+  return randomUUID();
+}
+
+let defaultLogger: Logger = silentLogger;
+
+/**
+ * Get the logger used when no logger is passed explicitly
+ */
+export function getDefaultLogger(): Logger {
+  return defaultLogger;
+}
+
+/**
+ * Replace the logger used when no logger is passed explicitly
+ * Nothing is logged by default.
+ */
+export function setDefaultLogger(logger: Logger): void {
+  defaultLogger = logger;
+}
@@ -0,0 +1,119 @@
+import { MetricsRegistry, toPrometheusText } from "./metrics.js";
+
+describe("MetricsRegistry", () => {
+  let metrics: MetricsRegistry;
+
+  beforeEach(() => {
+    metrics = new MetricsRegistry({ buckets: [1000, 100] });
+    metrics.recordRequest({ method: "get", endpoint: "https://api.chutes.ai/chutes/abc", success: true, responseTime: 50, retries: 0 });
+    metrics.recordRequest({ method: "GET", endpoint: "https://api.chutes.ai/chutes", success: true, responseTime: 500, retries: 0 });
+    metrics.recordRequest({ method: "GET", endpoint: "https://api.chutes.ai/images", success: false, responseTime: 5000, retries: 2, code: "NETWORK_ERROR" });
+    metrics.recordRequest({
+      method: "POST",
+      endpoint: "https://backup.chutes.ai/chutes/abc/cords/generate",
+      success: false,
+      responseTime: 80,
+      retries: 1,
+      status: 503,
+      code: "SERVICE_UNAVAILABLE",
+      cord: { chuteId: "abc", cordName: "generate" },
+    });
+    metrics.recordAttempt({ endpoint: "https://api.chutes.ai/images", retry: 0 });
+    metrics.recordAttempt({ endpoint: "https://api.chutes.ai/images", retry: 1 });
+    metrics.recordAttempt({ endpoint: "https://backup.chutes.ai/images", retry: 2 });
+  });
+
+  it("groups calls by method and endpoint origin, with cumulative latency buckets", () => {
+    const snapshot = metrics.getSnapshot();
+
+    expect(snapshot.requests).toEqual([
+      { method: "GET", endpoint: "https://api.chutes.ai", outcome: "success", count: 2 },
+      { method: "GET", endpoint: "https://api.chutes.ai", outcome: "error", count: 1 },
+      { method: "POST", endpoint: "https://backup.chutes.ai", outcome: "error", count: 1 },
+    ]);
+    expect(snapshot.latency[0]).toEqual({
+      method: "GET",
+      endpoint: "https://api.chutes.ai",
+      histogram: { buckets: [{ le: 100, count: 1 }, { le: 1000, count: 2 }], count: 3, sum: 5550 },
+    });
+    expect(snapshot.errors).toEqual([
+      { status: undefined, code: "NETWORK_ERROR", count: 1 },
+      { status: 503, code: "SERVICE_UNAVAILABLE", count: 1 },
+    ]);
+    expect(snapshot.retries).toEqual({
+      byEndpoint: [{ endpoint: "https://api.chutes.ai", count: 1 }, { endpoint: "https://backup.chutes.ai", count: 1 }],
+      byCord: [{ chuteId: "abc", cordName: "generate", executions: 1, retries: 1 }],
+    });
+  });
+
+  it("clears every metric on reset", () => {
+    metrics.reset();
+
+    expect(metrics.getSnapshot()).toEqual({ requests: [], latency: [], errors: [], retries: { byEndpoint: [], byCord: [] } });
+  });
+});
+
+describe("toPrometheusText", () => {
+  it("renders every metric with cumulative buckets, +Inf and durations in seconds", () => {
+    const metrics = new MetricsRegistry({ buckets: [100, 1000] });
+    metrics.recordRequest({ method: "GET", endpoint: "https://api.chutes.ai/chutes", success: true, responseTime: 50, retries: 0 });
+    metrics.recordRequest({ method: "GET", endpoint: "https://api.chutes.ai/chutes", success: false, responseTime: 5000, retries: 1, code: "TIMEOUT" });
+    metrics.recordRequest({
+      method: "POST",
+      endpoint: "https://api.chutes.ai/chutes/abc/cords/generate",
+      success: false,
+      responseTime: 500,
+      retries: 0,
+      status: 429,
+      code: "RATE_LIMITED",
+      cord: { chuteId: "abc", cordName: "generate" },
+    });
+    metrics.recordAttempt({ endpoint: "https://api.chutes.ai/chutes", retry: 1 });
+
+    expect(toPrometheusText(metrics.getSnapshot(), "test")).toBe([
+      "# HELP test_requests_total API calls by method, endpoint and outcome.",
+      "# TYPE test_requests_total counter",
+      'test_requests_total{method="GET",endpoint="https://api.chutes.ai",outcome="success"} 1',
+      'test_requests_total{method="GET",endpoint="https://api.chutes.ai",outcome="error"} 1',
+      'test_requests_total{method="POST",endpoint="https://api.chutes.ai",outcome="error"} 1',
+      "# HELP test_request_duration_seconds Duration of API calls, including retries.",
+      "# TYPE test_request_duration_seconds histogram",
+      'test_request_duration_seconds_bucket{method="GET",endpoint="https://api.chutes.ai",le="0.1"} 1',
+      'test_request_duration_seconds_bucket{method="GET",endpoint="https://api.chutes.ai",le="1"} 1',
+      'test_request_duration_seconds_bucket{method="GET",endpoint="https://api.chutes.ai",le="+Inf"} 2',
+      'test_request_duration_seconds_sum{method="GET",endpoint="https://api.chutes.ai"} 5.05',
+      'test_request_duration_seconds_count{method="GET",endpoint="https://api.chutes.ai"} 2',
+      'test_request_duration_seconds_bucket{method="POST",endpoint="https://api.chutes.ai",le="0.1"} 0',
+      'test_request_duration_seconds_bucket{method="POST",endpoint="https://api.chutes.ai",le="1"} 1',
+      'test_request_duration_seconds_bucket{method="POST",endpoint="https://api.chutes.ai",le="+Inf"} 1',
+      'test_request_duration_seconds_sum{method="POST",endpoint="https://api.chutes.ai"} 0.5',
+      'test_request_duration_seconds_count{method="POST",endpoint="https://api.chutes.ai"} 1',
+      "# HELP test_errors_total Failed API calls by HTTP status and error code.",
+      "# TYPE test_errors_total counter",
+      'test_errors_total{code="TIMEOUT"} 1',
+      'test_errors_total{status="429",code="RATE_LIMITED"} 1',
+      "# HELP test_endpoint_retries_total Retry attempts sent to each endpoint.",
+      "# TYPE test_endpoint_retries_total counter",
+      'test_endpoint_retries_total{endpoint="https://api.chutes.ai"} 1',
+      "# HELP test_cord_executions_total Cord executions by chute and cord.",
+      "# TYPE test_cord_executions_total counter",
+      'test_cord_executions_total{chute="abc",cord="generate"} 1',
+      "# HELP test_cord_retries_total Retries of cord executions by chute and cord.",
+      "# TYPE test_cord_retries_total counter",
+      'test_cord_retries_total{chute="abc",cord="generate"} 0',
+      "",
+    ].join("\n"));
+  });
+
+  it("leaves out labels without a value and escapes label values", () => {
+    const metrics = new MetricsRegistry();
+    metrics.recordRequest({ method: "GET", endpoint: "not a url", success: false, responseTime: 1, retries: 0 });
+    metrics.recordRequest({ method: "POST", endpoint: "x", success: true, responseTime: 1, retries: 0, cord: { chuteId: 'a"b', cordName: "c\\d\ne" } });
+
+    const text = toPrometheusText(metrics.getSnapshot());
+
+    expect(text).toContain("\nchutes_errors_total 1\n");
+    expect(text).not.toContain('=""');
+    expect(text).toContain('chutes_cord_executions_total{chute="a\\"b",cord="c\\\\d\\ne"} 1');
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Request Metrics
+ *
+ * Aggregates what API calls cost and how often they fail:
+ * - latency histograms per method and endpoint
+ * - error counts by HTTP status and error code
+ * - retry counts per endpoint and per cord
+ *
+ * Snapshots are plain objects for dashboards and health checks, and
+ * toPrometheusText renders them in the Prometheus text exposition format.
+ */
+
+/**
+ * A finished API call, including all of its retries
+ */
+export interface RequestSample {
+  method: string;
+  endpoint: string;  // Endpoint that handled the last attempt
+  success: boolean;
+  responseTime: number;  // Milliseconds, including retries and backoff waits
+  retries: number;
+  status?: number;
+  code?: string;
+  cord?: { chuteId: string; cordName: string };
+}
+
+/**
+ * A single attempt within an API call
+ */
+export interface AttemptSample {
+  endpoint: string;
+  retry: number;  // 0 for the first attempt of a call
+}
+
+/**
+ * Cumulative latency histogram; bucket bounds are in milliseconds
+ */
+export interface HistogramSnapshot {
+  buckets: Array<{ le: number; count: number }>;
+  count: number;
+  sum: number;
+}
+
+/**
+ * Point-in-time view of every metric
+ */
+export interface MetricsSnapshot {
+  requests: Array<{ method: string; endpoint: string; outcome: "success" | "error"; count: number }>;
+  latency: Array<{ method: string; endpoint: string; histogram: HistogramSnapshot }>;
+  errors: Array<{ status?: number; code?: string; count: number }>;
+  retries: {
+    byEndpoint: Array<{ endpoint: string; count: number }>;
+    byCord: Array<{ chuteId: string; cordName: string; executions: number; retries: number }>;
+  };
+}
+
+/**
+ * Options for a metrics registry
+ */
+export interface MetricsOptions {
+  buckets?: number[];  // Latency bucket upper bounds in milliseconds
+}
+
+/**
+ * Default latency buckets, from fast reads up to long cord executions
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000, 120000];
+
+interface HistogramState {
+  counts: number[];  // Per bucket, not cumulative; the last slot is +Inf
+  count: number;
+  sum: number;
+}
+
+/**
+ * Reduce a URL to its origin, so paths and IDs don't become separate series
+ */
+function toEndpointLabel(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Collects request metrics for one client
+ */
+export class MetricsRegistry {
+  private buckets: number[];
+  private requests = new Map<string, number>();
+  private latency = new Map<string, HistogramState>();
+  private errors = new Map<string, number>();
+  private endpointRetries = new Map<string, number>();
+  private cords = new Map<string, { executions: number; retries: number }>();
+
+  constructor(options: MetricsOptions = {}) {
+    this.buckets = [...(options.buckets || DEFAULT_LATENCY_BUCKETS_MS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record a finished API call
+   */
+  recordRequest(sample: RequestSample): void {
+    const method = sample.method.toUpperCase();
+    const endpoint = toEndpointLabel(sample.endpoint);
+    const outcome = sample.success ? "success" : "error";
+
+    increment(this.requests, JSON.stringify([method, endpoint, outcome]));
+
+    const latencyKey = JSON.stringify([method, endpoint]);
+    const histogram = this.latency.get(latencyKey)
+      || { counts: new Array(this.buckets.length + 1).fill(0), count: 0, sum: 0 };
+    const bucket = this.buckets.findIndex(bound => sample.responseTime <= bound);
+    histogram.counts[bucket === -1 ? this.buckets.length : bucket]++;
+    histogram.count++;
+    histogram.sum += sample.responseTime;
+    this.latency.set(latencyKey, histogram);
+
+    if (!sample.success) {
+      increment(this.errors, JSON.stringify([sample.status ?? null, sample.code ?? null]));
+    }
+
+    if (sample.cord) {
+      const cordKey = JSON.stringify([sample.cord.chuteId, sample.cord.cordName]);
+      const cord = this.cords.get(cordKey) || { executions: 0, retries: 0 };
+      cord.executions++;
+      cord.retries += sample.retries;
+      this.cords.set(cordKey, cord);
+    }
+  }
+
+  /**
+   * Record an attempt; attempts after the first of a call count as retries of their endpoint
+   */
+  recordAttempt(sample: AttemptSample): void {
+    if (sample.retry > 0) {
+      increment(this.endpointRetries, toEndpointLabel(sample.endpoint));
+    }
+  }
+
+  /**
+   * Get the current value of every metric
+   */
+  getSnapshot(): MetricsSnapshot {
+    return {
+      requests: [...this.requests].map(([key, count]) => {
+        const [method, endpoint, outcome] = JSON.parse(key);
+        return { method, endpoint, outcome, count };
+      }),
+      latency: [...this.latency].map(([key, state]) => {
+        const [method, endpoint] = JSON.parse(key);
+        let cumulative = 0;
+        const buckets = this.buckets.map((le, index) => {
+          cumulative += state.counts[index];
+          return { le, count: cumulative };
+        });
+        return { method, endpoint, histogram: { buckets, count: state.count, sum: state.sum } };
+      }),
+      errors: [...this.errors].map(([key, count]) => {
+        const [status, code] = JSON.parse(key);
+        return { status: status ?? undefined, code: code ?? undefined, count };
+      }),
+      retries: {
+        byEndpoint: [...this.endpointRetries].map(([endpoint, count]) => ({ endpoint, count })),
+        byCord: [...this.cords].map(([key, cord]) => {
+          const [chuteId, cordName] = JSON.parse(key);
+          return { chuteId, cordName, ...cord };
+        }),
+      },
+    };
+  }
+
+  /**
+   * Clear every metric
+   */
+  reset(): void {
+    this.requests.clear();
+    this.latency.clear();
+    this.errors.clear();
+    this.endpointRetries.clear();
+    this.cords.clear();
+  }
+}
+
+function increment(counters: Map<string, number>, key: string, by: number = 1): void {
+  counters.set(key, (counters.get(key) || 0) + by);
+}
+
+/**
+ * Render a snapshot in the Prometheus text exposition format
+ * Durations are converted to seconds, as Prometheus expects.
+ *
+ * @param snapshot Snapshot from MetricsRegistry.getSnapshot
+ * @param prefix Prefix for every metric name
+ */
+export function toPrometheusText(snapshot: MetricsSnapshot, prefix: string = "chutes"): string {
+  const lines: string[] = [];
+  const header = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+  };
+  const sample = (name: string, labels: Record<string, string | number | undefined>, value: number) => {
+    // An unknown value, such as the status of a network error, leaves its label out
+    const rendered = Object.entries(labels)
+      .filter(([, labelValue]) => labelValue !== undefined)
+      .map(([label, labelValue]) => `${label}="${escapeLabelValue(String(labelValue))}"`)
+      .join(",");
+    lines.push(`${prefix}_${name}${rendered ? `{${rendered}}` : ""} ${value}`);
+  };
+
+  header("requests_total", "counter", "API calls by method, endpoint and outcome.");
+  for (const { method, endpoint, outcome, count } of snapshot.requests) {
+    sample("requests_total", { method, endpoint, outcome }, count);
+  }
+
+  header("request_duration_seconds", "histogram", "Duration of API calls, including retries.");
+  for (const { method, endpoint, histogram } of snapshot.latency) {
+    for (const bucket of histogram.buckets) {
+      sample("request_duration_seconds_bucket", { method, endpoint, le: bucket.le / 1000 }, bucket.count);
+    }
+    sample("request_duration_seconds_bucket", { method, endpoint, le: "+Inf" }, histogram.count);
+    sample("request_duration_seconds_sum", { method, endpoint }, histogram.sum / 1000);
+    sample("request_duration_seconds_count", { method, endpoint }, histogram.count);
+  }
+
+  header("errors_total", "counter", "Failed API calls by HTTP status and error code.");
+  for (const { status, code, count } of snapshot.errors) {
+    sample("errors_total", { status, code }, count);
+  }
+
+  header("endpoint_retries_total", "counter", "Retry attempts sent to each endpoint.");
+  for (const { endpoint, count } of snapshot.retries.byEndpoint) {
+    sample("endpoint_retries_total", { endpoint }, count);
+  }
+
+  header("cord_executions_total", "counter", "Cord executions by chute and cord.");
+  for (const { chuteId, cordName, executions } of snapshot.retries.byCord) {
+    sample("cord_executions_total", { chute: chuteId, cord: cordName }, executions);
+  }
+
+  header("cord_retries_total", "counter", "Retries of cord executions by chute and cord.");
+  for (const { chuteId, cordName, retries } of snapshot.retries.byCord) {
+    sample("cord_retries_total", { chute: chuteId, cord: cordName }, retries);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
@@ -0,0 +1,27 @@
+import { LogRecord, createLogger } from "./logger.js";
+import { ValidationError, validateApiKey } from "./utils.js";
+
+describe("validateApiKey", () => {
+  let records: LogRecord[];
+  const logger = createLogger(record => records.push(record));
+
+  beforeEach(() => {
+    records = [];
+  });
+
+  it("rejects a missing key", () => {
+    expect(() => validateApiKey({ apiKey: "" }, logger)).toThrow(ValidationError);
+  });
+
+  it.each(["YOUR_API_KEY", "short"])("warns the given logger about %s", apiKey => {
+    validateApiKey({ apiKey }, logger);
+
+    expect(records).toEqual([expect.objectContaining({ level: "warn", context: { field: "apiKey" } })]);
+  });
+
+  it("accepts a plausible key quietly", () => {
+    validateApiKey({ apiKey: "cpk_0123.abcdef" }, logger);
+
+    expect(records).toEqual([]);
+  });
+});
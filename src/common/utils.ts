@@ -5,7 +5,13 @@
  * to ensure robustness and reliability in API operations.
  */
 
-import { ApiLogger } from "./api-utils.js";
+import { Logger, getDefaultLogger } from "./logger.js";
+import {
+  JsonSchema,
+  SchemaIssue,
+  formatSchemaIssues,
+  validateJsonSchema,
+} from "./json-schema.js";
 
 /**
  * Error class for validation failures
@@ -17,10 +23,24 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * Error class for values that do not match a JSON Schema, with one issue per field
+ */
+export class SchemaValidationError extends ValidationError {
+  constructor(message: string, public errors: SchemaIssue[]) {
+    super(message, errors[0]?.path || undefined);
+    this.name = "SchemaValidationError";
+  }
+}
+
 /**
  * Validate that an API key is provided
+ * A key that looks like a placeholder is only warned about, since local mock
+ * servers accept any key.
+ *
+ * @param logger - Receives the warning; pass the caller's logger so it isn't dropped
  */
-export function validateApiKey(config: { apiKey: string }): void {
+export function validateApiKey(config: { apiKey: string }, logger: Logger = getDefaultLogger()): void {
   if (!config.apiKey) {
     throw new ValidationError(
       "API key is required. Please set CHUTES_API_KEY environment variable.",
@@ -30,10 +50,10 @@ export function validateApiKey(config: { apiKey: string }): void {
   
   // Check if API key has a reasonable format (not empty, not a placeholder)
   if (config.apiKey === "YOUR_API_KEY" || config.apiKey.trim().length < 8) {
-    ApiLogger.error("CONFIG", "API Key", new ValidationError(
+    logger.warn(
       "API key appears to be invalid or a placeholder. Please set a valid CHUTES_API_KEY.",
-      "apiKey"
-    ));
+      { field: "apiKey" }
+    );
   }
 }
 
@@ -56,7 +76,7 @@ export function validateSearchQuery(content: any): string {
  * Handle errors from API calls
  */
 export function handleApiError(error: unknown): { success: false; response: string } {
-  console.error("API Error:", error);
+  getDefaultLogger().error("API error", { error });
   const errorMessage = error instanceof Error ? error.message : "Unknown error";
   return {
     success: false,
@@ -89,6 +109,9 @@ ${url ? `URL: ${url}` : ""}
 
 /**
  * Create a rate limiter with token bucket algorithm
+ * Requests can either check the limit without waiting (`checkLimit`) or wait
+ * their turn in a FIFO queue (`acquire`). The limiter can also be paused,
+ * e.g. when the server reports that its own rate limit is exhausted.
  * @param limit Maximum number of tokens (requests)
  * @param timeWindow Time in ms to refill tokens
  * @returns An object with functions to check and manage rate limits
@@ -97,6 +120,47 @@ export function createRateLimiter(limit: number, timeWindow: number) {
   let tokens = limit;
   let lastRefill = Date.now();
   let totalThrottled = 0;
+  let pausedUntil = 0;
+  let drainTimer: ReturnType<typeof setTimeout> | undefined;
+  const queue: Array<{ resolve: () => void; cancel: () => void }> = [];
+  
+  const refill = () => {
+    const windowsPassed = Math.floor((Date.now() - lastRefill) / timeWindow);
+    
+    // Only whole windows refill tokens, so keep the remainder for the next check
+    if (windowsPassed > 0) {
+      tokens = Math.min(limit, tokens + windowsPassed * limit);
+      lastRefill += windowsPassed * timeWindow;
+    }
+  };
+  
+  const scheduleDrain = (ms: number) => {
+    if (!drainTimer) drainTimer = setTimeout(drain, Math.max(0, ms));
+  };
+  
+  // Hand out tokens to queued requests in order, then wait for the next refill or pause end
+  const drain = () => {
+    drainTimer = undefined;
+    
+    while (queue.length > 0) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        scheduleDrain(pausedUntil - now);
+        return;
+      }
+      
+      refill();
+      if (tokens <= 0) {
+        scheduleDrain(timeWindow - (now - lastRefill));
+        return;
+      }
+      
+      tokens--;
+      const waiter = queue.shift()!;
+      waiter.cancel();
+      waiter.resolve();
+    }
+  };
   
   return {
     /**
@@ -104,17 +168,9 @@ export function createRateLimiter(limit: number, timeWindow: number) {
      * @returns true if within limit, false if throttled
      */
     checkLimit: () => {
-      const now = Date.now();
-      const timePassed = now - lastRefill;
+      refill();
       
-      // Refill tokens based on time passed
-      if (timePassed > 0) {
-        const refillAmount = Math.floor(timePassed / timeWindow) * limit;
-        tokens = Math.min(limit, tokens + refillAmount);
-        lastRefill = now;
-      }
-      
-      if (tokens > 0) {
+      if (tokens > 0 && queue.length === 0 && Date.now() >= pausedUntil) {
         tokens--;
         return true;
       }
@@ -123,6 +179,47 @@ export function createRateLimiter(limit: number, timeWindow: number) {
       return false;
     },
     
+    /**
+     * Wait until a request can be made within the rate limit
+     * Waiting requests are served in the order they called acquire.
+     * @param signal Optional signal that cancels the wait
+     * @throws The signal's abort reason if it is aborted while waiting
+     */
+    acquire: (signal?: AbortSignal): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        
+        const onAbort = () => {
+          const index = queue.indexOf(waiter);
+          if (index !== -1) queue.splice(index, 1);
+          reject(signal!.reason);
+        };
+        
+        const waiter = {
+          resolve,
+          cancel: () => signal?.removeEventListener('abort', onAbort),
+        };
+        
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(waiter);
+        
+        if (queue.length > 1 || tokens <= 0 || Date.now() < pausedUntil) totalThrottled++;
+        drain();
+      });
+    },
+    
+    /**
+     * Hold back all requests for the given time
+     * Pauses never shorten an existing pause.
+     * @param ms Pause duration in milliseconds
+     */
+    pauseFor: (ms: number) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+    
     /**
      * Get rate limit metrics
      * @returns Current rate limit statistics
@@ -130,21 +227,33 @@ export function createRateLimiter(limit: number, timeWindow: number) {
     getMetrics: () => ({
       availableTokens: tokens,
       totalThrottled,
+      queuedRequests: queue.length,
+      pausedForMs: Math.max(0, pausedUntil - Date.now()),
       timeSinceLastRefill: Date.now() - lastRefill,
       nextRefillMs: Math.max(0, timeWindow - (Date.now() - lastRefill)),
     }),
     
     /**
      * Reset the rate limiter to initial state
+     * Queued requests continue with the refilled tokens.
      */
     reset: () => {
       tokens = limit;
       lastRefill = Date.now();
       totalThrottled = 0;
+      pausedUntil = 0;
+      if (drainTimer) clearTimeout(drainTimer);
+      drainTimer = undefined;
+      drain();
     }
   };
 }
 
+/**
+ * A rate limiter created by createRateLimiter
+ */
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
 /**
  * Validate a chute ID with enhanced checks
  */
@@ -216,8 +325,15 @@ export function validateCordName(name: string): void {
 
 /**
  * Validate parameters for cord execution with enhanced checks
+ * When the cord's input schema is given, the params are also validated against it
+ * 
+ * @returns The params with schema defaults filled in
+ * @throws SchemaValidationError listing every invalid field
  */
-export function validateParams(params: any): void {
+export function validateParams<T extends object = Record<string, unknown>>(
+  params: any,
+  schema?: JsonSchema
+): T {
   if (params === null || typeof params !== "object") {
     throw new ValidationError(
       `Parameters must be an object, got ${params === null ? 'null' : typeof params}`,
@@ -234,4 +350,16 @@ export function validateParams(params: any): void {
       "params"
     );
   }
+  
+  if (!schema) return params as T;
+  
+  const result = validateJsonSchema<T>(params, schema);
+  if (!result.valid) {
+    throw new SchemaValidationError(
+      `Invalid parameters:\n${formatSchemaIssues(result.errors)}`,
+      result.errors
+    );
+  }
+  
+  return result.value;
 }
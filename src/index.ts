@@ -1,5 +1,13 @@
 export * from "./common/types.js";
 export * from "./common/utils.js";
+export * from "./common/json-schema.js";
+export * from "./common/cache.js";
+export * from "./common/coalescing.js";
+export * from "./common/endpoint-health.js";
+export * from "./common/logger.js";
+export * from "./common/metrics.js";
+export * from "./common/cassette.js";
+export * from "./common/diagnostics.js";
 export * from "./plugins/tavily/index.js";
 export * from "./plugins/exa/index.js";
 export * from "./plugins/chutes/index.js";
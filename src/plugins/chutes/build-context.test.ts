@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { gunzipSync } from "zlib";
+
+import { packBuildContext } from "./build-context.js";
+import { ValidationError } from "../../common/utils.js";
+
+describe("packBuildContext", () => {
+  let workDir: string;
+  let contextDir: string;
+
+  function write(file: string, content = "x"): void {
+    const fullPath = path.join(contextDir, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "chutes-build-context-"));
+    contextDir = path.join(workDir, "context");
+    write("Dockerfile", "FROM python:3.11\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("packs every file under its relative path", () => {
+    write("app/main.py", "print('hi')");
+    write("requirements.txt");
+
+    const { archive, dockerfile, files } = packBuildContext(contextDir);
+
+    expect(dockerfile).toBe("Dockerfile");
+    expect(files).toEqual(["Dockerfile", "app/main.py", "requirements.txt"]);
+    expect(gunzipSync(archive).toString("latin1")).toContain("print('hi')");
+  });
+
+  it("skips .git and node_modules", () => {
+    write(".git/config");
+    write("node_modules/pkg/index.js");
+    write("web/node_modules/pkg/index.js");
+
+    expect(packBuildContext(contextDir).files).toEqual(["Dockerfile", "web/node_modules/pkg/index.js"]);
+  });
+
+  it("applies .dockerignore patterns and ignore options", () => {
+    fs.writeFileSync(path.join(contextDir, ".dockerignore"), [
+      "# build output",
+      "dist",
+      "*.log",
+      "cache/**",
+      "**/*.pyc",
+      "data?.csv",
+      "!keep.log",
+      "",
+    ].join("\n"));
+    write("dist/bundle.js");
+    write("error.log");
+    write("logs/error.log");
+    write("cache/a/b.bin");
+    write("app/main.py");
+    write("app/main.pyc");
+    write("data1.csv");
+    write("data10.csv");
+    write("keep.log");
+    write("secrets.env");
+
+    const { files } = packBuildContext(contextDir, { ignore: ["*.env"] });
+
+    expect(files).toEqual([".dockerignore", "Dockerfile", "app/main.py", "data10.csv", "logs/error.log"]);
+  });
+
+  it("keeps the Dockerfile even when a pattern ignores it", () => {
+    write("docker/Dockerfile.gpu");
+
+    const { dockerfile, files } = packBuildContext(contextDir, { dockerfile: "docker/Dockerfile.gpu", ignore: ["docker", "Dockerfile"] });
+
+    expect(dockerfile).toBe("docker/Dockerfile.gpu");
+    expect(files).toEqual(["docker/Dockerfile.gpu"]);
+  });
+
+  it.each([
+    "../Dockerfile",
+    "../../Dockerfile",
+    "app/../../Dockerfile",
+    ".",
+  ])("rejects a Dockerfile path %s that leaves the context", dockerfile => {
+    fs.writeFileSync(path.join(workDir, "Dockerfile"), "FROM secrets\n");
+
+    expect(() => packBuildContext(contextDir, { dockerfile })).toThrow(/must be inside the build context/);
+  });
+
+  it("rejects an absolute Dockerfile path outside the context", () => {
+    fs.writeFileSync(path.join(workDir, "Dockerfile"), "FROM secrets\n");
+
+    expect(() => packBuildContext(contextDir, { dockerfile: path.join(workDir, "Dockerfile") })).toThrow(ValidationError);
+  });
+
+  it("normalizes a Dockerfile path that stays inside the context", () => {
+    const { dockerfile, files } = packBuildContext(contextDir, { dockerfile: "./app/../Dockerfile" });
+
+    expect(dockerfile).toBe("Dockerfile");
+    expect(files).toEqual(["Dockerfile"]);
+  });
+
+  it("rejects a missing Dockerfile or context directory", () => {
+    expect(() => packBuildContext(contextDir, { dockerfile: "Dockerfile.gpu" })).toThrow(/Dockerfile not found/);
+    expect(() => packBuildContext(path.join(workDir, "missing"))).toThrow(/directory not found/);
+  });
+
+  it("rejects a context larger than the size limit", () => {
+    write("model.bin", "x".repeat(1000));
+
+    expect(() => packBuildContext(contextDir, { maxBytes: 1000 })).toThrow(/exceeds the maximum size of 1000 bytes/);
+    expect(packBuildContext(contextDir, { maxBytes: 1017 }).files).toEqual(["Dockerfile", "model.bin"]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Packaging of local image build contexts for upload to Chutes
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ArchiveEntry, createTarGz } from "../../common/archive.js";
+import { ValidationError } from "../../common/utils.js";
+
+/**
+ * Options for packaging a build context
+ */
+export interface BuildContextOptions {
+  dockerfile?: string;  // Path relative to the context directory
+  ignore?: string[];  // Extra patterns to exclude, in .dockerignore syntax
+  maxBytes?: number;
+}
+
+/**
+ * A packaged build context ready for upload
+ */
+export interface BuildContextArchive {
+  archive: Buffer;
+  dockerfile: string;
+  files: string[];
+}
+
+/**
+ * Paths that never belong in a build context
+ */
+const DEFAULT_IGNORE = [".git", "node_modules"];
+
+/**
+ * Largest archive that will be uploaded (before compression)
+ */
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024; // 100 MB
+
+/**
+ * Convert a .dockerignore pattern to a regular expression
+ * Supports `*`, `?` and `**`; negated patterns (`!`) are not supported.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/^\/+/, "").replace(/\/+$/, "");
+  let source = "";
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === "*" && normalized[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (normalized[i + 1] === "/") i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  // A pattern matching a directory also excludes everything inside it
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Read the ignore patterns from the context's .dockerignore, if there is one
+ */
+function readDockerignore(contextDir: string): string[] {
+  const ignoreFile = path.join(contextDir, ".dockerignore");
+  if (!fs.existsSync(ignoreFile)) return [];
+
+  return fs.readFileSync(ignoreFile, "utf8")
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#") && !line.startsWith("!"));
+}
+
+/**
+ * Recursively collect the files of a directory as paths relative to the root
+ */
+function collectFiles(root: string, dir: string, ignore: RegExp[], files: string[]): void {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path.relative(root, fullPath).split(path.sep).join("/");
+
+    if (ignore.some(pattern => pattern.test(relativePath))) continue;
+
+    if (entry.isDirectory()) {
+      collectFiles(root, fullPath, ignore, files);
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+    // Symlinks and special files are skipped
+  }
+}
+
+/**
+ * Package a local build context (Dockerfile and files) into a gzipped tar archive
+ *
+ * @param contextDir Directory containing the Dockerfile and build files
+ * @param options Packaging options
+ * @throws ValidationError if the directory or Dockerfile is missing, the Dockerfile is outside
+ *   the directory, or the context is too large
+ */
+export function packBuildContext(
+  contextDir: string,
+  options: BuildContextOptions = {}
+): BuildContextArchive {
+  const root = path.resolve(contextDir);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new ValidationError(`Build context directory not found: ${contextDir}`, "contextDir");
+  }
+
+  // The Dockerfile is read and archived under its relative path, so it must not escape the context
+  const dockerfilePath = path.resolve(root, options.dockerfile || "Dockerfile");
+  const relativeDockerfile = path.relative(root, dockerfilePath);
+  if (!relativeDockerfile || relativeDockerfile.split(path.sep)[0] === ".." || path.isAbsolute(relativeDockerfile)) {
+    throw new ValidationError(`Dockerfile must be inside the build context: ${options.dockerfile}`, "dockerfile");
+  }
+
+  const dockerfile = relativeDockerfile.split(path.sep).join("/");
+  if (!fs.existsSync(dockerfilePath) || !fs.statSync(dockerfilePath).isFile()) {
+    throw new ValidationError(`Dockerfile not found in build context: ${dockerfile}`, "dockerfile");
+  }
+
+  const ignore = [...DEFAULT_IGNORE, ...readDockerignore(root), ...(options.ignore || [])]
+    .map(patternToRegExp);
+
+  const files: string[] = [];
+  collectFiles(root, root, ignore, files);
+
+  // The Dockerfile is always needed, even if an ignore pattern matches it
+  if (!files.includes(dockerfile)) files.push(dockerfile);
+  files.sort();
+
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  let totalBytes = 0;
+  const entries: ArchiveEntry[] = files.map(file => {
+    const fullPath = path.join(root, file);
+    const stats = fs.statSync(fullPath);
+    totalBytes += stats.size;
+
+    if (totalBytes > maxBytes) {
+      throw new ValidationError(
+        `Build context exceeds the maximum size of ${maxBytes} bytes`,
+        "contextDir"
+      );
+    }
+
+    return {
+      path: file,
+      content: fs.readFileSync(fullPath),
+      mode: stats.mode & 0o777,
+      mtime: stats.mtime,
+    };
+  });
+
+  return {
+    archive: createTarGz(entries),
+    dockerfile,
+    files,
+  };
+}
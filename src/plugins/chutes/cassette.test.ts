@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { ChutesClient } from "./client.js";
+import { Cassette } from "../../common/cassette.js";
+
+// Recorded from MockChutesServer, with a chat cord whose schema nests deeper than log redaction goes
+const FIXTURE = path.join(__dirname, "__fixtures__", "chutes-api.json");
+const CHUTE_ID = "00000000-0000-4000-8000-000000000002";
+
+describe("ChutesClient replaying a cassette", () => {
+  let cassette: Cassette;
+  let client: ChutesClient;
+
+  beforeEach(() => {
+    cassette = new Cassette({ mode: "replay", path: FIXTURE });
+    client = new ChutesClient({
+      apiKey: "cpk_test.replay.key",
+      baseUrl: "https://api.chutes.ai",
+      fallbackEndpoints: [],
+      cache: false,
+      retries: 0,
+      transport: cassette.transport,
+    });
+  });
+
+  it("parses recorded responses", async () => {
+    const [chute] = await client.listChutes();
+    expect(chute).toEqual(expect.objectContaining({ id: CHUTE_ID, name: "mock-echo", status: "running" }));
+
+    const cords = await client.listCords(CHUTE_ID);
+    expect(cords.map(cord => cord.name)).toEqual(["echo", "generate", "chat"]);
+
+    const chat = cords.find(cord => cord.name === "chat")!;
+    expect(chat.input_schema).toMatchObject({
+      properties: {
+        messages: {
+          items: {
+            properties: {
+              content: { anyOf: [{ type: "string" }, { items: { properties: { text: { type: "string" } } } }] },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it("matches POST requests on their body", async () => {
+    const result = await client.executeCord(CHUTE_ID, "echo", { hello: "world" }, { validate: false });
+
+    expect(result).toEqual(expect.objectContaining({ hello: "world" }));
+  });
+
+  it("fails at once on a request that was never recorded", async () => {
+    await expect(client.executeCord(CHUTE_ID, "echo", { hello: "moon" }, { validate: false }))
+      .rejects.toThrow(/No recorded interaction for POST/);
+  });
+
+  it("tracks which recordings were used", async () => {
+    await client.listChutes();
+
+    expect(cassette.getUnusedInteractions().map(interaction => interaction.request.method)).toEqual(["GET", "POST"]);
+  });
+
+  it("holds no secrets", () => {
+    for (const { request } of cassette.getInteractions()) {
+      expect(request.headers.authorization).toBe("[REDACTED]");
+    }
+    expect(JSON.stringify(cassette.getInteractions())).not.toMatch(/cpk_|\[Truncated\]/);
+  });
+});
+
+describe("Cassette saving", () => {
+  let workDir: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "chutes-cassette-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("keeps saving after a failed write", async () => {
+    // A file where the fixture's directory should be makes the first write fail
+    const blocker = path.join(workDir, "fixtures");
+    const fixture = path.join(blocker, "api.json");
+    fs.writeFileSync(blocker, "");
+    const cassette = new Cassette({
+      mode: "record",
+      path: fixture,
+      fetch: async () => new Response(JSON.stringify([]), { status: 200 }),
+    });
+
+    await expect(cassette.save()).rejects.toThrow();
+
+    fs.rmSync(blocker);
+    await cassette.transport("https://api.chutes.ai/chutes", { method: "GET" });
+    await cassette.save();
+
+    expect(JSON.parse(fs.readFileSync(fixture, "utf8")).interactions).toHaveLength(1);
+  });
+});
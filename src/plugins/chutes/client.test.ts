@@ -0,0 +1,281 @@
+import { ChutesClient, ChutesClientConfig } from "./client.js";
+import { ChutesError } from "./errors.js";
+import { MockChutesServer, MockRequestRecord } from "./testing.js";
+
+const API_KEY = "cpk_test.mock.key";
+const CHUTE_ID = "00000000-0000-4000-8000-000000000002";
+const ECHO_PATH = `/chutes/${CHUTE_ID}/cords/echo`;
+
+describe("ChutesClient retries", () => {
+  const primary = new MockChutesServer({ apiKeys: [API_KEY] });
+  const fallback = new MockChutesServer({ apiKeys: [API_KEY] });
+
+  beforeAll(async () => {
+    await Promise.all([primary.start(), fallback.start()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([primary.stop(), fallback.stop()]);
+  });
+
+  beforeEach(() => {
+    primary.reset();
+    fallback.reset();
+  });
+
+  function createClient(config: Partial<ChutesClientConfig> = {}): ChutesClient {
+    return new ChutesClient({
+      apiKey: API_KEY,
+      baseUrl: primary.url,
+      fallbackEndpoints: [fallback.url],
+      cache: false,
+      retries: 2,
+      ...config,
+    });
+  }
+
+  // A 503 on both endpoints that asks to be retried at once, so tests don't wait out backoff
+  function failEcho(times?: number): void {
+    for (const server of [primary, fallback]) {
+      server.addFault({ path: ECHO_PATH, method: "POST", status: 503, retryAfterSeconds: 0, times });
+    }
+  }
+
+  function echoAttempts(): MockRequestRecord[] {
+    return [...primary.requests, ...fallback.requests].filter(request => request.method === "POST" && request.path === ECHO_PATH);
+  }
+
+  function execute(client: ChutesClient, options = {}) {
+    return client.executeCord(CHUTE_ID, "echo", { hello: "world" }, { validate: false, ...options });
+  }
+
+  it("does not retry a POST without an idempotency key", async () => {
+    failEcho();
+
+    await expect(execute(createClient())).rejects.toBeInstanceOf(ChutesError);
+
+    const attempts = echoAttempts();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].headers["idempotency-key"]).toBeUndefined();
+  });
+
+  it("retries a POST with a generated key, reusing it on every attempt and endpoint", async () => {
+    failEcho(1);
+
+    const result = await execute(createClient({ idempotencyKeys: true }));
+
+    expect(result).toEqual(expect.objectContaining({ hello: "world" }));
+    const keys = echoAttempts().map(request => request.headers["idempotency-key"]);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+    expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(primary.requests.some(request => request.path === ECHO_PATH)).toBe(true);
+    expect(fallback.requests.some(request => request.path === ECHO_PATH)).toBe(true);
+  });
+
+  it("sends a new key with each call", async () => {
+    const client = createClient({ idempotencyKeys: true });
+
+    await execute(client);
+    await execute(client);
+
+    const [first, second] = echoAttempts().map(request => request.headers["idempotency-key"]);
+    expect(first).not.toBe(second);
+  });
+
+  it("retries a POST with a per-call key", async () => {
+    failEcho(1);
+
+    await execute(createClient(), { idempotencyKey: "deploy-1" });
+
+    expect(echoAttempts().map(request => request.headers["idempotency-key"])).toEqual(["deploy-1", "deploy-1", "deploy-1"]);
+  });
+
+  it("retries a POST without a key when the call asks to always retry", async () => {
+    failEcho();
+
+    await expect(execute(createClient(), { retry: "always" })).rejects.toBeInstanceOf(ChutesError);
+
+    const attempts = echoAttempts();
+    expect(attempts).toHaveLength(3);
+    expect(attempts.every(request => request.headers["idempotency-key"] === undefined)).toBe(true);
+  });
+
+  it("doesn't retry when the call asks never to", async () => {
+    failEcho();
+
+    await expect(execute(createClient({ idempotencyKeys: true }), { retry: "never" })).rejects.toBeInstanceOf(ChutesError);
+
+    expect(echoAttempts()).toHaveLength(1);
+  });
+
+  it("retries reads without a key", async () => {
+    primary.addFault({ path: "/chutes", method: "GET", status: 503, retryAfterSeconds: 0, times: 1 });
+
+    await createClient({ fallbackEndpoints: [] }).listChutes();
+
+    expect(primary.requests.filter(request => request.path === "/chutes")).toHaveLength(2);
+  });
+});
+
+describe("ChutesClient endpoint health", () => {
+  const primary = new MockChutesServer({ apiKeys: [API_KEY] });
+  const fallback = new MockChutesServer({ apiKeys: [API_KEY] });
+
+  beforeAll(async () => {
+    await Promise.all([primary.start(), fallback.start()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([primary.stop(), fallback.stop()]);
+  });
+
+  it("skips a base URL with an open circuit in favour of a fallback", async () => {
+    primary.addFault({ path: "/chutes", status: 503, retryAfterSeconds: 0 });
+    const client = new ChutesClient({
+      apiKey: API_KEY,
+      baseUrl: primary.url,
+      fallbackEndpoints: [fallback.url],
+      cache: false,
+      retries: 1,
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60000 },
+    });
+
+    await client.listChutes();
+    await client.listChutes();
+    await client.listChutes();
+
+    expect(primary.requests).toHaveLength(1);
+    expect(fallback.requests).toHaveLength(3);
+    expect(client.getEndpointHealth()).toEqual([
+      expect.objectContaining({ endpoint: primary.url, state: "open", preferred: false }),
+      expect.objectContaining({ endpoint: fallback.url, state: "closed", preferred: true }),
+    ]);
+  });
+});
+
+describe("ChutesClient hedged reads", () => {
+  const primary = new MockChutesServer({ apiKeys: [API_KEY] });
+  const fallback = new MockChutesServer({ apiKeys: [API_KEY] });
+  let sent: Array<{ url: string; signal?: AbortSignal | null }>;
+  let client: ChutesClient;
+
+  beforeAll(async () => {
+    await Promise.all([primary.start(), fallback.start()]);
+  });
+
+  afterAll(async () => {
+    await Promise.all([primary.stop(), fallback.stop()]);
+  });
+
+  beforeEach(() => {
+    primary.reset();
+    fallback.reset();
+    fallback.state.chutes[0].name = "fallback-echo";
+    primary.addFault({ path: "/chutes", latencyMs: 300 });
+    sent = [];
+    client = new ChutesClient({
+      apiKey: API_KEY,
+      baseUrl: primary.url,
+      fallbackEndpoints: [fallback.url],
+      cache: false,
+      retries: 0,
+      hedging: { delayMs: 50 },
+      transport: (url, init) => {
+        sent.push({ url, signal: init.signal });
+        return fetch(url, init);
+      },
+    });
+  });
+
+  it("sends one hedge to the fallback, uses the winner and aborts the loser", async () => {
+    const [chute] = await client.listChutes();
+
+    expect(chute.name).toBe("fallback-echo");
+    expect(sent.map(request => request.url)).toEqual([`${primary.url}/chutes`, `${fallback.url}/chutes`]);
+    expect(sent[0].signal?.aborted).toBe(true);
+    expect(sent[1].signal?.aborted).toBe(false);
+  });
+
+  it("doesn't send the hedge after the caller aborts", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(client.listChutes({ signal: controller.signal })).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].signal?.aborted).toBe(true);
+    expect(fallback.requests).toHaveLength(0);
+  });
+
+  it("doesn't send the hedge after the call times out", async () => {
+    await expect(client.listChutes({ timeoutMs: 10 })).rejects.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(sent).toHaveLength(1);
+    expect(fallback.requests).toHaveLength(0);
+  });
+});
+
+describe("ChutesClient request coalescing", () => {
+  const server = new MockChutesServer({ apiKeys: [API_KEY] });
+  let sent: Array<{ url: string; signal?: AbortSignal | null }>;
+  let client: ChutesClient;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    server.addFault({ path: "/chutes", latencyMs: 200 });
+    sent = [];
+    client = new ChutesClient({
+      apiKey: API_KEY,
+      baseUrl: server.url,
+      fallbackEndpoints: [],
+      cache: false,
+      retries: 0,
+      transport: (url, init) => {
+        sent.push({ url, signal: init.signal });
+        return fetch(url, init);
+      },
+    });
+  });
+
+  function abortSoon(): AbortSignal {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    return controller.signal;
+  }
+
+  it("keeps a shared read running for callers still waiting", async () => {
+    const [aborted, waiting] = await Promise.allSettled([
+      client.listChutes({ signal: abortSoon() }),
+      client.listChutes(),
+    ]);
+
+    expect(aborted).toMatchObject({ status: "rejected", reason: { code: "ABORTED" } });
+    expect(waiting).toMatchObject({ status: "fulfilled", value: [expect.objectContaining({ name: "mock-echo" })] });
+    expect(client.getCoalescingStats()).toEqual({ started: 1, coalesced: 1, inFlight: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].signal?.aborted).toBe(false);
+  });
+
+  it("aborts a shared read once every caller has stopped waiting", async () => {
+    const results = await Promise.allSettled([
+      client.listChutes({ signal: abortSoon() }),
+      client.listChutes({ signal: abortSoon() }),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(["rejected", "rejected"]);
+    expect(client.getCoalescingStats()).toEqual({ started: 1, coalesced: 1, inFlight: 0 });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].signal?.aborted).toBe(true);
+  });
+});
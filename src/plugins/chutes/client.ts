@@ -1,21 +1,64 @@
 import {
   ChutesApiClient,
+  ChutesChatCompletion,
+  ChutesChatCompletionChunk,
+  ChutesChatCompletionRequest,
   ChutesChute,
   ChutesCord,
+  ChutesCordStreamChunk,
   ChutesImage,
+  ChutesImageBuild,
+  ChutesImageBuildStatus,
+  ChutesInstance,
   ChutesPluginConfig,
+  ChutesRequestOptions,
   ChutesUserInfo,
-  DeveloperDepositInfo
+  CordExecutionOptions,
+  CordStreamOptions,
+  CreateImageParams,
+  DeveloperDepositInfo,
+  ImageBuildOptions,
+  UpdateChuteParams,
+  WaitForStatusOptions
 } from "./types.js";
+import {
+  ChuteStatusError,
+  ChutesAuthError,
+  ChutesDeveloperRequiredError,
+  ChutesError,
+  ChutesNotFoundError,
+  ChutesTimeoutError,
+  fromApiResponse,
+  toChutesError,
+} from "./errors.js";
+import { packBuildContext } from "./build-context.js";
 
 import {
   ApiLogger,
   ApiResponse,
   DEFAULT_REQUEST_OPTIONS,
+  HedgeOptions,
+  HttpTransport,
   RequestOptions,
+  TransportInterceptor,
+  createTransport,
+  delay,
+  fetchStream,
   fetchWithRetry,
   validateResponseData,
 } from "../../common/api-utils.js";
+import { JsonSchema } from "../../common/json-schema.js";
+import { CacheStore, ResponseCache } from "../../common/cache.js";
+import { CoalescingStats, RequestCoalescer } from "../../common/coalescing.js";
+import {
+  CircuitBreakerOptions,
+  EndpointHealthSnapshot,
+  EndpointHealthTracker,
+} from "../../common/endpoint-health.js";
+import { Logger, createCorrelationId, getDefaultLogger, redactLogger } from "../../common/logger.js";
+import { MetricsOptions, MetricsRegistry, MetricsSnapshot } from "../../common/metrics.js";
+import { createHash } from "crypto";
+import { RateLimiter, createRateLimiter, validateParams } from "../../common/utils.js";
 
 /**
  * Client configuration with additional API settings
@@ -26,6 +69,33 @@ export interface ChutesClientConfig extends ChutesPluginConfig {
   timeoutMs?: number;
   retries?: number;
   fallbackEndpoints?: string[];
+  streamIdleTimeoutMs?: number;
+  llmBaseUrl?: string;
+  validateCordParams?: boolean;
+  cache?: false | {
+    store?: CacheStore;
+    ttlMs?: number;
+  };
+  circuitBreaker?: CircuitBreakerOptions;
+  hedging?: boolean | HedgeOptions;  // Race slow reads against a fallback endpoint
+  idempotencyKeys?: boolean;  // Send idempotency keys with POSTs so they can be retried; only for servers that honor them
+  rateLimits?: {  // Client-side limits; by default requests only wait when the API asks them to
+    read?: RateLimitConfig | false;  // Reads and management calls
+    cord?: RateLimitConfig | false;  // Cord execution and chat completions
+  };
+  transport?: HttpTransport;  // Replaces the global fetch, e.g. for proxies or test doubles
+  interceptors?: TransportInterceptor[];
+  logger?: Logger;  // Nothing is logged unless a logger is given or a default logger is set
+  redactFields?: string[];  // Extra fields masked in log entries, e.g. sensitive cord params
+  metrics?: MetricsOptions;
+}
+
+/**
+ * Client-side rate limit for a class of requests
+ */
+export interface RateLimitConfig {
+  limit: number;  // Requests allowed per window
+  windowMs: number;
 }
 
 /**
@@ -35,55 +105,336 @@ const DEFAULT_CLIENT_CONFIG: Partial<ChutesClientConfig> = {
   baseUrl: "https://api.chutes.ai",
   timeoutMs: 30000, // 30 seconds
   retries: 3,
+  streamIdleTimeoutMs: 30000, // 30 seconds without output
+  llmBaseUrl: "https://llm.chutes.ai/v1",
+  validateCordParams: true,
 };
 
+/**
+ * Limit used when none is configured: no cap of its own, but requests still
+ * pause for Retry-After and X-RateLimit-Reset
+ */
+const API_DRIVEN_RATE_LIMIT: RateLimitConfig = { limit: Infinity, windowMs: 1000 };
+
 /**
  * Alternative API endpoints to try if the main one fails
+ * Only used with the default base URL, so requests for a custom base URL
+ * are never sent to the production API.
  */
 const FALLBACK_ENDPOINTS = [
   "https://api-backup.chutes.ai",
   "https://api-fallback.chutes.ai",
 ];
 
+/**
+ * Sentinel some OpenAI-compatible cords send to mark the end of a stream
+ */
+const STREAM_DONE_MARKER = "[DONE]";
+
+/**
+ * How long to wait for an image build, and how often to check on it
+ */
+const IMAGE_BUILD_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+const IMAGE_BUILD_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Defaults for waiting on a chute status
+ */
+const CHUTE_STATUS_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const CHUTE_STATUS_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Chute statuses that mean a deployment will not become ready on its own
+ */
+const FAILED_CHUTE_STATUSES = ["failed", "error"];
+
+/**
+ * Map the image status reported by the API onto a build status
+ */
+function toBuildStatus(status?: string): ChutesImageBuildStatus {
+  switch ((status || "").toLowerCase()) {
+    case "built":
+    case "ready":
+    case "completed":
+    case "success":
+      return "built";
+    case "failed":
+    case "error":
+      return "failed";
+    case "building":
+      return "building";
+    case "pushing":
+      return "pushing";
+    default:
+      return "pending";
+  }
+}
+
+/**
+ * Matches chute IDs, which can be passed instead of a chute name as the chat model
+ */
+const CHUTE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Extract the text content from a streamed cord payload
+ */
+function extractChunkText(data: any): string | undefined {
+  if (typeof data === "string") return data;
+  if (!data || typeof data !== "object") return undefined;
+  
+  // OpenAI-style completion chunks
+  const choice = Array.isArray(data.choices) ? data.choices[0] : undefined;
+  if (choice) {
+    return choice.delta?.content ?? choice.text ?? choice.message?.content;
+  }
+  
+  const text = data.text ?? data.token ?? data.delta ?? data.content ?? data.response;
+  return typeof text === "string" ? text : undefined;
+}
+
 /**
  * Client for interacting with the Chutes API with enhanced reliability
  */
 export class ChutesClient implements ChutesApiClient {
   private apiKey: string;
   private baseUrl: string;
+  private llmBaseUrl: string;
   private config: ChutesClientConfig;
   private requestOptions: RequestOptions;
+  private cache?: ResponseCache;
+  private endpointHealth: EndpointHealthTracker;
+  private readRateLimiter?: RateLimiter;
+  private cordRateLimiter?: RateLimiter;
+  private abortController = new AbortController();
+  private coalescer = new RequestCoalescer();
+  private logger: Logger;
+  private metrics: MetricsRegistry;
 
-  constructor(config: ChutesPluginConfig) {
+  constructor(config: ChutesClientConfig) {
     this.config = { ...DEFAULT_CLIENT_CONFIG, ...config };
     this.apiKey = this.config.apiKey;
     this.baseUrl = this.config.baseUrl || DEFAULT_CLIENT_CONFIG.baseUrl!;
+    this.llmBaseUrl = this.config.llmBaseUrl || DEFAULT_CLIENT_CONFIG.llmBaseUrl!;
+    this.logger = redactLogger(this.config.logger || getDefaultLogger(), this.config.redactFields);
+    this.metrics = new MetricsRegistry(this.config.metrics);
+    
+    const fallbackEndpoints = this.config.fallbackEndpoints
+      ?? (this.baseUrl === DEFAULT_CLIENT_CONFIG.baseUrl ? FALLBACK_ENDPOINTS : []);
+    this.endpointHealth = new EndpointHealthTracker(
+      [this.baseUrl, ...fallbackEndpoints],
+      this.config.circuitBreaker
+    );
+    
+    // Reads and cord executions are limited separately, so slow cords never hold up status checks
+    const readLimit = config.rateLimits?.read ?? API_DRIVEN_RATE_LIMIT;
+    const cordLimit = config.rateLimits?.cord ?? API_DRIVEN_RATE_LIMIT;
+    if (readLimit) {
+      this.readRateLimiter = createRateLimiter(readLimit.limit, readLimit.windowMs);
+    }
+    if (cordLimit) {
+      this.cordRateLimiter = createRateLimiter(cordLimit.limit, cordLimit.windowMs);
+    }
     
     // Configure request options
     this.requestOptions = {
       timeout: this.config.timeoutMs,
       retries: this.config.retries,
-      fallbackEndpoints: this.config.fallbackEndpoints || FALLBACK_ENDPOINTS,
+      baseUrl: this.baseUrl,
+      fallbackEndpoints,
+      endpointHealth: this.endpointHealth,
+      hedge: this.config.hedging,
+      rateLimiter: this.readRateLimiter,
+      idempotencyKey: this.config.idempotencyKeys,
+      onAttempt: attempt => this.metrics.recordAttempt(attempt),
+      transport: createTransport({
+        fetch: this.config.transport,
+        interceptors: this.config.interceptors,
+      }),
       headers: {
         "Authorization": `Bearer ${this.apiKey}`,
         "Content-Type": "application/json",
       },
     };
+    
+    // Cache reads per account so clients with different keys never share entries
+    if (this.config.cache !== false) {
+      const accountHash = createHash("sha256")
+        .update(`${this.baseUrl}:${this.apiKey}`)
+        .digest("hex")
+        .slice(0, 16);
+      this.cache = new ResponseCache({
+        store: this.config.cache?.store,
+        ttlMs: this.config.cache?.ttlMs,
+        namespace: `chutes:${accountHash}`,
+        logger: this.logger,
+      });
+    }
+  }
+
+  /**
+   * Get the circuit breaker state and success rate of the API endpoint and its fallbacks
+   */
+  getEndpointHealth(): EndpointHealthSnapshot[] {
+    return this.endpointHealth.getHealth();
+  }
+
+  /**
+   * Cancel every in-flight request, e.g. when the agent shuts down
+   * The client stays usable for new requests afterwards.
+   */
+  abortAll(reason?: unknown): void {
+    const controller = this.abortController;
+    this.abortController = new AbortController();
+    controller.abort(reason);
+  }
+
+  /**
+   * Combine a caller's signal with the client's own, so abortAll reaches every request
+   */
+  private linkSignal(signal?: AbortSignal): AbortSignal {
+    return signal
+      ? AbortSignal.any([signal, this.abortController.signal])
+      : this.abortController.signal;
+  }
+
+  /**
+   * Get the state of the client-side rate limiters
+   */
+  getRateLimitMetrics() {
+    return {
+      read: this.readRateLimiter?.getMetrics(),
+      cord: this.cordRateLimiter?.getMetrics(),
+    };
+  }
+
+  /**
+   * Replace the store used for cached reads, e.g. with a RuntimeCacheStore
+   */
+  setCacheStore(store: CacheStore): void {
+    this.cache?.setStore(store);
+  }
+
+  /**
+   * Get latency, error and retry metrics for the requests this client has sent
+   * Render the snapshot with toPrometheusText to expose it to Prometheus.
+   */
+  getMetrics(): MetricsSnapshot {
+    return this.metrics.getSnapshot();
+  }
+
+  /**
+   * Add a finished request to the metrics
+   */
+  private recordMetrics(
+    method: string,
+    url: string,
+    response: ApiResponse<unknown>,
+    cord?: { chuteId: string; cordName: string }
+  ): void {
+    this.metrics.recordRequest({
+      method,
+      endpoint: response.metrics?.endpoint || url,
+      success: response.success,
+      responseTime: response.metrics?.responseTime ?? 0,
+      retries: response.metrics?.retries ?? 0,
+      status: response.error?.status,
+      code: response.error?.code,
+      cord,
+    });
+  }
+
+  /**
+   * Replace the logger, e.g. with one that forwards to elizaLogger
+   */
+  setLogger(logger: Logger): void {
+    this.logger = redactLogger(logger, this.config.redactFields);
+    this.cache?.setLogger(this.logger);
+  }
+
+  /**
+   * Drop cached responses for the given endpoints, or every cached response if none are given
+   */
+  async invalidateCache(...endpoints: string[]): Promise<void> {
+    if (!this.cache) return;
+    if (endpoints.length === 0) {
+      await this.cache.clear();
+    } else {
+      await this.cache.invalidate(...endpoints);
+    }
   }
 
   /**
    * Helper method to make authenticated API requests with enhanced reliability
    * Includes timeout handling, retries, and fallback endpoints
+   * GET responses are served from the cache while they are fresh, and
+   * concurrent identical GETs share one request
    */
   private async makeRequest<T>(
     endpoint: string,
     method: string = "GET",
-    body?: object
+    body?: object,
+    callOptions: ChutesRequestOptions = {}
+  ): Promise<T> {
+    if (method !== "GET") {
+      return this.sendRequest<T>(endpoint, method, body, callOptions);
+    }
+    
+    // Each caller's signal ends its own wait; the shared request is aborted once no caller is left
+    const load = () => this.coalescer.run(
+      endpoint,
+      signal => this.sendRequest<T>(endpoint, method, body, { ...callOptions, signal }),
+      callOptions.signal
+    );
+    
+    try {
+      return await (this.cache ? this.cache.getOrLoad<T>(endpoint, load) : load());
+    } catch (error) {
+      if (callOptions.signal?.aborted) {
+        throw new ChutesError("Chutes API error: Request was aborted", { endpoint, code: "ABORTED" });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get how many GET requests were sent and how many were shared with a request already in flight
+   */
+  getCoalescingStats(): CoalescingStats {
+    return this.coalescer.getStats();
+  }
+
+  /**
+   * Apply per-call options on top of request options
+   * Each call gets its own correlation ID, so its log entries can be grouped.
+   */
+  private withCallOptions(
+    callOptions: ChutesRequestOptions,
+    requestOptions: RequestOptions = this.requestOptions
+  ): RequestOptions {
+    return {
+      ...requestOptions,
+      timeout: callOptions.timeoutMs ?? requestOptions.timeout,
+      signal: this.linkSignal(callOptions.signal),
+      retryPolicy: callOptions.retry ?? requestOptions.retryPolicy,
+      idempotencyKey: callOptions.idempotencyKey ?? requestOptions.idempotencyKey,
+      logger: this.logger.child({ correlationId: createCorrelationId() }),
+    };
+  }
+
+  /**
+   * Send an API request, bypassing the cache
+   */
+  private async sendRequest<T>(
+    endpoint: string,
+    method: string,
+    body?: object,
+    callOptions: ChutesRequestOptions = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
+    const requestOptions = this.withCallOptions(callOptions);
     
     // Log the API request
-    ApiLogger.request(method, url, { method, hasBody: !!body });
+    ApiLogger.request(method, url, { hasBody: !!body }, requestOptions.logger);
 
     // Prepare fetch options
     const options: RequestInit = {
@@ -93,47 +444,69 @@ export class ChutesClient implements ChutesApiClient {
     };
 
     // Make the request with enhanced error handling and timeout
-    const response = await fetchWithRetry<T>(url, options, this.requestOptions);
+    const response = await fetchWithRetry<T>(url, options, requestOptions);
     
     // Log the API response
-    ApiLogger.response(method, url, response);
+    ApiLogger.response(method, url, response, requestOptions.logger);
+    this.recordMetrics(method, url, response);
 
     // Handle the response
     if (!response.success) {
-      const errorMessage = response.error?.message || "Unknown API error";
-      console.error(`API Error: ${method} ${url} - ${errorMessage}`);
-      
-      // Handle special cases for different error types
-      if (response.error?.status === 404) {
-        // Check if this is the "No matching chute found!" error
-        if (response.error?.details?.detail === "No matching chute found!") {
-          // For /chutes endpoint, this might mean no chutes exist yet (not an error)
-          if (endpoint === "/chutes") {
-            console.warn("No chutes found - this might be normal if you haven't deployed any chutes yet");
-            return [] as unknown as T; // Return empty array for listChutes
-          }
-        }
-      } else if (response.error?.status === 401 || response.error?.status === 403) {
-        throw new Error(`Authentication error: ${errorMessage} - Please check your API key`);
+      // Check if this is the "No matching chute found!" error
+      if (response.error?.status === 404 &&
+          response.error?.details?.detail === "No matching chute found!" &&
+          endpoint === "/chutes") {
+        // For /chutes endpoint, this might mean no chutes exist yet (not an error)
+        requestOptions.logger?.info("No chutes found - this might be normal if you haven't deployed any chutes yet");
+        return [] as unknown as T; // Return empty array for listChutes
       }
       
-      // For other errors, throw with detailed message
-      throw new Error(`Chutes API error: ${errorMessage}`);
+      const error = fromApiResponse(response, endpoint);
+      if (error instanceof ChutesAuthError) {
+        error.message += " - Please check your API key";
+      }
+      throw error;
     }
 
     // Return the data
     return response.data as T;
   }
 
+  /**
+   * Turn a permission error into a developer-required error if the account isn't a developer
+   * Returns the original error when the account already has developer status
+   */
+  private async toDeveloperError(
+    error: ChutesError,
+    context: string,
+    options: ChutesRequestOptions = {}
+  ): Promise<ChutesError> {
+    const devStatus = await this.checkDeveloperStatus(options);
+    if (devStatus.isDeveloper) return error;
+    
+    return new ChutesDeveloperRequiredError(
+      `${context}: ${devStatus.requirementMessage}`,
+      {
+        status: error.status,
+        endpoint: error.endpoint,
+        requestId: error.requestId,
+        body: error.body,
+      },
+      devStatus.requirementMessage,
+      devStatus.depositInfo
+    );
+  }
+
   /**
    * Check if authentication is working
    */
-  async checkAuth(): Promise<boolean> {
+  async checkAuth(options: ChutesRequestOptions = {}): Promise<boolean> {
     try {
-      await this.getUserInfo();
+      await this.getUserInfo(options);
       return true;
     } catch (error) {
-      console.error("Authentication check failed:", error);
+      if (options.signal?.aborted) throw error;
+      this.logger.error("Authentication check failed", { error });
       return false;
     }
   }
@@ -141,8 +514,8 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * Get current user information
    */
-  async getUserInfo(): Promise<ChutesUserInfo> {
-    const userInfo = await this.makeRequest<ChutesUserInfo>("/users/me");
+  async getUserInfo(options: ChutesRequestOptions = {}): Promise<ChutesUserInfo> {
+    const userInfo = await this.makeRequest<ChutesUserInfo>("/users/me", "GET", undefined, options);
     
     // The response might use different field names than expected
     // Only validate that we got a valid object back
@@ -156,8 +529,8 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * Get developer deposit information
    */
-  async getDeveloperDepositInfo(): Promise<DeveloperDepositInfo> {
-    const depositInfo = await this.makeRequest<DeveloperDepositInfo>("/developer_deposit");
+  async getDeveloperDepositInfo(options: ChutesRequestOptions = {}): Promise<DeveloperDepositInfo> {
+    const depositInfo = await this.makeRequest<DeveloperDepositInfo>("/developer_deposit", "GET", undefined, options);
     
     // Ensure we have the essential fields
     if (!depositInfo || typeof depositInfo !== 'object') {
@@ -175,13 +548,13 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * Check if the user has developer status
    */
-  async checkDeveloperStatus(): Promise<{
+  async checkDeveloperStatus(options: ChutesRequestOptions = {}): Promise<{
     isDeveloper: boolean;
     depositInfo?: DeveloperDepositInfo;
     requirementMessage?: string;
   }> {
     try {
-      const userInfo = await this.getUserInfo();
+      const userInfo = await this.getUserInfo(options);
       
       // If user has developer status
       if (userInfo.is_developer) {
@@ -189,7 +562,7 @@ export class ChutesClient implements ChutesApiClient {
       }
       
       // Get deposit requirements
-      const depositInfo = await this.getDeveloperDepositInfo();
+      const depositInfo = await this.getDeveloperDepositInfo(options);
       
       return {
         isDeveloper: false,
@@ -197,7 +570,8 @@ export class ChutesClient implements ChutesApiClient {
         requirementMessage: `To become a developer, you need to deposit approximately ${depositInfo.tao_estimate} TAO (approximately $${depositInfo.usd} USD) to your wallet address.`
       };
     } catch (error) {
-      console.error("Failed to check developer status:", error);
+      if (options.signal?.aborted) throw error;
+      this.logger.error("Failed to check developer status", { error });
       return {
         isDeveloper: false,
         requirementMessage: "Failed to check developer status. Please ensure your API key has the correct permissions."
@@ -208,9 +582,9 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * List all images
    */
-  async listImages(): Promise<ChutesImage[]> {
+  async listImages(options: ChutesRequestOptions = {}): Promise<ChutesImage[]> {
     try {
-      const response = await this.makeRequest<ChutesImage[]>("/images");
+      const response = await this.makeRequest<ChutesImage[]>("/images", "GET", undefined, options);
       
       // Validate and normalize response data
       return Array.isArray(response) 
@@ -222,10 +596,14 @@ export class ChutesClient implements ChutesApiClient {
         : [];
     } catch (error) {
       // Check if this is a developer permission issue
-      const devStatus = await this.checkDeveloperStatus();
-      if (!devStatus.isDeveloper) {
-        console.warn("Developer status required to access images:", devStatus.requirementMessage);
-        return []; // Return empty array instead of throwing
+      if (error instanceof ChutesAuthError || error instanceof ChutesNotFoundError) {
+        const devStatus = await this.checkDeveloperStatus(options);
+        if (!devStatus.isDeveloper) {
+          this.logger.warn("Developer status required to access images", {
+            requirement: devStatus.requirementMessage,
+          });
+          return []; // Return empty array instead of throwing
+        }
       }
       throw error;
     }
@@ -234,11 +612,11 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * Get image details
    */
-  async getImage(id: string): Promise<ChutesImage> {
+  async getImage(id: string, options: ChutesRequestOptions = {}): Promise<ChutesImage> {
     if (!id) throw new Error("Image ID must be provided");
     
     try {
-      const image = await this.makeRequest<ChutesImage>(`/images/${id}`);
+      const image = await this.makeRequest<ChutesImage>(`/images/${id}`, "GET", undefined, options);
       
       // Validate the response
       return validateResponseData<ChutesImage>(
@@ -248,13 +626,217 @@ export class ChutesClient implements ChutesApiClient {
       );
     } catch (error) {
       // Check if this is a developer permission issue
-      if (error instanceof Error && 
-          (error.message.includes("404") || error.message.includes("403"))) {
-        const devStatus = await this.checkDeveloperStatus();
-        if (!devStatus.isDeveloper) {
-          throw new Error(`Failed to get image: ${devStatus.requirementMessage}`);
+      if (error instanceof ChutesAuthError || error instanceof ChutesNotFoundError) {
+        throw await this.toDeveloperError(error, "Failed to get image", options);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build an image from a local build context
+   * Packages and uploads the context, then polls until the build finishes,
+   * forwarding build logs to `options.onLog` as they are produced
+   */
+  async createImage(
+    params: CreateImageParams,
+    options: ImageBuildOptions = {}
+  ): Promise<ChutesImageBuild> {
+    if (!params.name) throw new Error("Image name is required");
+    if (!params.tag) throw new Error("Image tag is required");
+    if (!params.contextDir) throw new Error("Build context directory is required");
+    
+    const context = packBuildContext(params.contextDir, {
+      dockerfile: params.dockerfile,
+      ignore: params.ignore,
+    });
+    
+    const startTime = Date.now();
+    const form = new FormData();
+    form.append("build_context", new Blob([new Uint8Array(context.archive)], { type: "application/gzip" }), "context.tar.gz");
+    form.append("name", params.name);
+    form.append("tag", params.tag);
+    form.append("dockerfile", context.dockerfile);
+    form.append("public", String(params.public ?? false));
+    if (params.readme) form.append("readme", params.readme);
+    
+    // Leave Content-Type to fetch so it includes the multipart boundary
+    const { "Content-Type": _contentType, ...headers } = this.requestOptions.headers || {};
+    const uploadOptions = this.withCallOptions({ signal: options.signal }, {
+      ...this.requestOptions,
+      headers,
+      timeout: 120000, // 2 minutes for the upload
+      retries: 0,
+      fallbackEndpoints: [],
+    });
+    
+    const url = `${this.baseUrl}/images`;
+    ApiLogger.request("POST", url, {
+      name: params.name,
+      tag: params.tag,
+      files: context.files.length,
+      bytes: context.archive.length,
+    }, uploadOptions.logger);
+    
+    const response = await fetchWithRetry<{ image_id?: string; id?: string }>(
+      url,
+      { method: "POST", body: form },
+      uploadOptions
+    );
+    
+    ApiLogger.response("POST", url, response, uploadOptions.logger);
+    this.recordMetrics("POST", url, response);
+    
+    if (!response.success) {
+      const error = fromApiResponse(response, "/images", "Image upload failed");
+      if (error instanceof ChutesAuthError) {
+        throw await this.toDeveloperError(error, "Failed to create image", { signal: options.signal });
+      }
+      throw error;
+    }
+    
+    await this.invalidateCache("/images");
+    
+    const imageId = response.data?.image_id || response.data?.id;
+    if (!imageId) {
+      throw new ChutesError("Image upload failed: the response did not include an image ID", {
+        status: response.error?.status,
+        endpoint: "/images",
+        requestId: response.requestId,
+        body: response.data,
+      });
+    }
+    
+    // Logs are streamed alongside polling and stop when the build is done
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    
+    const logsDone = options.onLog
+      ? this.forwardBuildLogs(imageId, options.onLog, controller.signal)
+      : Promise.resolve();
+    
+    try {
+      const image = await this.waitForImageBuild(imageId, {
+        ...options,
+        signal: controller.signal,
+      });
+      const status = toBuildStatus(image.status);
+      const completedAt = Date.now();
+      
+      return {
+        imageId,
+        name: params.name,
+        tag: params.tag,
+        status,
+        startedAt: new Date(startTime).toISOString(),
+        completedAt: new Date(completedAt).toISOString(),
+        durationMs: completedAt - startTime,
+        error: status === "failed" ? `Image build failed with status "${image.status}"` : undefined,
+        image,
+      };
+    } finally {
+      controller.abort();
+      options.signal?.removeEventListener('abort', onAbort);
+      await logsDone;
+    }
+  }
+
+  /**
+   * Poll an image until its build has either succeeded or failed
+   */
+  private async waitForImageBuild(
+    imageId: string,
+    options: ImageBuildOptions
+  ): Promise<ChutesImage> {
+    const timeoutMs = options.timeoutMs ?? IMAGE_BUILD_TIMEOUT_MS;
+    const pollIntervalMs = options.pollIntervalMs ?? IMAGE_BUILD_POLL_INTERVAL_MS;
+    const deadline = Date.now() + timeoutMs;
+    
+    while (true) {
+      // Always poll the API rather than the cache
+      await this.invalidateCache(`/images/${imageId}`);
+      const image = await this.getImage(imageId, { signal: options.signal });
+      const status = toBuildStatus(image.status);
+      
+      if (status === "built" || status === "failed") {
+        return image;
+      }
+      
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new ChutesTimeoutError(
+          `Image build ${imageId} did not finish within ${timeoutMs}ms (last status: ${status})`,
+          { endpoint: `/images/${imageId}` }
+        );
+      }
+      
+      await delay(pollIntervalMs, options.signal);
+    }
+  }
+
+  /**
+   * Forward build log lines to a callback until the stream ends or is aborted
+   * Log streaming is best effort and never fails the build
+   */
+  private async forwardBuildLogs(
+    imageId: string,
+    onLog: (line: string) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    try {
+      for await (const line of this.streamImageBuildLogs(imageId, { signal, idleTimeoutMs: IMAGE_BUILD_TIMEOUT_MS })) {
+        onLog(line);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        this.logger.warn("Build log stream ended unexpectedly", { imageId, error });
+      }
+    }
+  }
+
+  /**
+   * Stream the build logs of an image line by line
+   */
+  async *streamImageBuildLogs(
+    id: string,
+    options: CordStreamOptions = {}
+  ): AsyncGenerator<string> {
+    if (!id) throw new Error("Image ID must be provided");
+    
+    const url = `${this.baseUrl}/images/${id}/logs`;
+    
+    try {
+      for await (const { data } of this.streamRequest(url, undefined, options)) {
+        const text = typeof data === "string"
+          ? data
+          : data?.log ?? data?.message ?? data?.line ?? JSON.stringify(data);
+        
+        for (const line of String(text).split(/\r?\n/)) {
+          if (line) yield line;
         }
       }
+    } catch (error) {
+      throw toChutesError(error, `/images/${id}/logs`, "Build log stream failed");
+    }
+  }
+
+  /**
+   * Delete an image
+   */
+  async deleteImage(id: string, options: ChutesRequestOptions = {}): Promise<boolean> {
+    if (!id) throw new Error("Image ID must be provided");
+    
+    try {
+      await this.makeRequest<void>(`/images/${id}`, "DELETE", undefined, options);
+      await this.invalidateCache("/images", `/images/${id}`);
+      return true;
+    } catch (error) {
+      // Handle special case where a 404 might mean the image is already deleted
+      if (error instanceof ChutesNotFoundError) {
+        this.logger.info("Image not found, it may already be deleted", { imageId: id });
+        await this.invalidateCache("/images", `/images/${id}`);
+        return true;
+      }
       throw error;
     }
   }
@@ -262,9 +844,9 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * List all chutes
    */
-  async listChutes(): Promise<ChutesChute[]> {
+  async listChutes(options: ChutesRequestOptions = {}): Promise<ChutesChute[]> {
     try {
-      const response = await this.makeRequest<ChutesChute[]>("/chutes");
+      const response = await this.makeRequest<ChutesChute[]>("/chutes", "GET", undefined, options);
       
       // Validate and normalize response data
       return Array.isArray(response) 
@@ -276,7 +858,7 @@ export class ChutesClient implements ChutesApiClient {
         : [];
     } catch (error) {
       // If it's a 404 with "No matching chute found", return empty array
-      if (error instanceof Error && error.message.includes("No matching chute found")) {
+      if (error instanceof ChutesNotFoundError && error.body?.detail === "No matching chute found!") {
         return [];
       }
       throw error;
@@ -286,10 +868,10 @@ export class ChutesClient implements ChutesApiClient {
   /**
    * Get chute details
    */
-  async getChute(id: string): Promise<ChutesChute> {
+  async getChute(id: string, options: ChutesRequestOptions = {}): Promise<ChutesChute> {
     if (!id) throw new Error("Chute ID must be provided");
     
-    const chute = await this.makeRequest<ChutesChute>(`/chutes/${id}`);
+    const chute = await this.makeRequest<ChutesChute>(`/chutes/${id}`, "GET", undefined, options);
     
     // Validate the response
     return validateResponseData<ChutesChute>(
@@ -313,7 +895,7 @@ export class ChutesClient implements ChutesApiClient {
       include?: string[];
       exclude?: string[];
     };
-  }): Promise<ChutesChute> {
+  }, options: ChutesRequestOptions = {}): Promise<ChutesChute> {
     // Validate required parameters
     if (!params.username) throw new Error("Username is required");
     if (!params.name) throw new Error("Chute name is required");
@@ -325,7 +907,8 @@ export class ChutesClient implements ChutesApiClient {
       throw new Error("Minimum VRAM per GPU is required");
 
     try {
-      const chute = await this.makeRequest<ChutesChute>("/chutes", "POST", params);
+      const chute = await this.makeRequest<ChutesChute>("/chutes", "POST", params, options);
+      await this.invalidateCache("/chutes");
       
       // Validate the response
       return validateResponseData<ChutesChute>(
@@ -335,45 +918,169 @@ export class ChutesClient implements ChutesApiClient {
       );
     } catch (error) {
       // Check if this is a developer permission issue
-      if (error instanceof Error && 
-          (error.message.includes("permission") || 
-           error.message.includes("403") || 
-           error.message.includes("not authorized"))) {
-        const devStatus = await this.checkDeveloperStatus();
-        if (!devStatus.isDeveloper) {
-          throw new Error(`Failed to deploy chute: ${devStatus.requirementMessage}`);
-        }
+      if (error instanceof ChutesAuthError) {
+        throw await this.toDeveloperError(error, "Failed to deploy chute", options);
       }
       throw error;
     }
   }
 
+  /**
+   * Update the readme, visibility or node selector of a chute
+   */
+  async updateChute(
+    id: string,
+    params: UpdateChuteParams,
+    options: ChutesRequestOptions = {}
+  ): Promise<ChutesChute> {
+    if (!id) throw new Error("Chute ID must be provided");
+    if (params.readme === undefined && params.public === undefined && !params.node_selector) {
+      throw new Error("At least one of readme, public or node_selector must be provided");
+    }
+    if (params.node_selector) {
+      if (!(params.node_selector.gpu_count > 0)) 
+        throw new Error("GPU count must be a positive number");
+      if (!(params.node_selector.min_vram_gb_per_gpu > 0)) 
+        throw new Error("Minimum VRAM per GPU must be a positive number");
+    }
+    
+    const chute = await this.makeRequest<ChutesChute>(`/chutes/${id}`, "PUT", params, options);
+    await this.invalidateCache("/chutes", `/chutes/${id}`);
+    
+    // Validate the response
+    return validateResponseData<ChutesChute>(
+      chute, 
+      ['id', 'username', 'name', 'image_id', 'created_at', 'status'],
+      { public: false }
+    );
+  }
+
   /**
    * Delete a chute
    */
-  async deleteChute(id: string): Promise<boolean> {
+  async deleteChute(id: string, options: ChutesRequestOptions = {}): Promise<boolean> {
     if (!id) throw new Error("Chute ID must be provided");
     
+    const staleEndpoints = ["/chutes", `/chutes/${id}`, `/chutes/${id}/cords`, `/chutes/${id}/instances`];
+    
     try {
-      await this.makeRequest<void>(`/chutes/${id}`, "DELETE");
+      await this.makeRequest<void>(`/chutes/${id}`, "DELETE", undefined, options);
+      await this.invalidateCache(...staleEndpoints);
       return true;
     } catch (error) {
       // Handle special case where a 404 might mean the chute is already deleted
-      if (error instanceof Error && error.message.includes("404")) {
-        console.warn(`Chute with ID ${id} not found (may already be deleted)`);
+      if (error instanceof ChutesNotFoundError) {
+        this.logger.info("Chute not found, it may already be deleted", { chuteId: id });
+        await this.invalidateCache(...staleEndpoints);
         return true;
       }
       throw error;
     }
   }
 
+  /**
+   * List the instances currently serving a chute
+   */
+  async listInstances(chuteId: string, options: ChutesRequestOptions = {}): Promise<ChutesInstance[]> {
+    if (!chuteId) throw new Error("Chute ID must be provided");
+    
+    const response = await this.makeRequest<ChutesInstance[]>(
+      `/chutes/${chuteId}/instances`,
+      "GET",
+      undefined,
+      options
+    );
+    
+    // Validate and normalize response data
+    return Array.isArray(response) 
+      ? response.map(instance => validateResponseData<ChutesInstance>(
+          instance, 
+          ['instance_id', 'created_at'],
+          { chute_id: chuteId, active: false, verified: false }
+        ))
+      : [];
+  }
+
+  /**
+   * Poll a chute until it reaches one of the target statuses
+   * Fails early if the chute moves to a failed status or disappears
+   * 
+   * @throws ChuteStatusError if the chute fails or is deleted while waiting
+   * @throws ChutesTimeoutError if the target status isn't reached in time
+   */
+  async waitForChuteStatus(
+    id: string,
+    targetStatus: string | string[],
+    options: WaitForStatusOptions = {}
+  ): Promise<ChutesChute> {
+    if (!id) throw new Error("Chute ID must be provided");
+    
+    const targets = (Array.isArray(targetStatus) ? targetStatus : [targetStatus])
+      .map(status => status.toLowerCase());
+    if (targets.length === 0) throw new Error("At least one target status must be provided");
+    
+    const timeout = options.timeout ?? CHUTE_STATUS_TIMEOUT_MS;
+    const pollInterval = options.pollInterval ?? CHUTE_STATUS_POLL_INTERVAL_MS;
+    const deadline = Date.now() + timeout;
+    let lastChute: ChutesChute | undefined;
+    
+    while (true) {
+      let chute: ChutesChute;
+      try {
+        // Always poll the API rather than the cache
+        await this.invalidateCache(`/chutes/${id}`);
+        chute = await this.getChute(id, { signal: options.signal });
+      } catch (error) {
+        // A chute that disappears while we wait has been deleted
+        if (error instanceof ChutesNotFoundError && lastChute) {
+          if (targets.includes("deleted")) return { ...lastChute, status: "deleted" };
+          throw new ChuteStatusError(
+            `Chute ${id} was deleted while waiting for status ${targets.join(" or ")}`,
+            id,
+            "deleted",
+            targets
+          );
+        }
+        throw error;
+      }
+      
+      const status = (chute.status || "").toLowerCase();
+      if (!lastChute || lastChute.status !== chute.status) {
+        options.onStatusChange?.(chute.status, chute);
+      }
+      lastChute = chute;
+      
+      if (targets.includes(status)) {
+        return chute;
+      }
+      
+      if (FAILED_CHUTE_STATUSES.includes(status)) {
+        throw new ChuteStatusError(
+          `Chute ${id} moved to status "${chute.status}" while waiting for ${targets.join(" or ")}`,
+          id,
+          chute.status,
+          targets
+        );
+      }
+      
+      if (Date.now() + pollInterval > deadline) {
+        throw new ChutesTimeoutError(
+          `Chute ${id} did not reach status ${targets.join(" or ")} within ${timeout}ms (last status: ${chute.status})`,
+          { endpoint: `/chutes/${id}` }
+        );
+      }
+      
+      await delay(pollInterval, options.signal);
+    }
+  }
+
   /**
    * List available cords for a chute
    */
-  async listCords(chuteId: string): Promise<ChutesCord[]> {
+  async listCords(chuteId: string, options: ChutesRequestOptions = {}): Promise<ChutesCord[]> {
     if (!chuteId) throw new Error("Chute ID must be provided");
     
-    const response = await this.makeRequest<ChutesCord[]>(`/chutes/${chuteId}/cords`);
+    const response = await this.makeRequest<ChutesCord[]>(`/chutes/${chuteId}/cords`, "GET", undefined, options);
     
     // Validate and normalize response data
     return Array.isArray(response) 
@@ -385,41 +1092,261 @@ export class ChutesClient implements ChutesApiClient {
       : [];
   }
 
+  /**
+   * Validate cord params against the cord's input schema and fill in defaults
+   * Validation is skipped when the schema cannot be loaded
+   */
+  private async prepareCordParams(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options: CordExecutionOptions & ChutesRequestOptions
+  ): Promise<object> {
+    const shouldValidate = options.validate ?? this.config.validateCordParams;
+    if (!shouldValidate) return params;
+    
+    let schema = options.inputSchema;
+    if (!schema) {
+      try {
+        const cords = await this.listCords(chuteId, { signal: options.signal });
+        schema = cords.find(c => c.name === cordName)?.input_schema;
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        this.logger.warn("Could not load the cord input schema, skipping validation", { chuteId, cordName, error });
+        return params;
+      }
+    }
+    
+    return schema ? validateParams(params, schema as JsonSchema) : params;
+  }
+
   /**
    * Execute a cord function
+   * Params are checked against the cord's input schema before anything runs
    */
-  async executeCord(chuteId: string, cordName: string, params: object): Promise<any> {
+  async executeCord(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options: CordExecutionOptions & ChutesRequestOptions = {}
+  ): Promise<any> {
     if (!chuteId) throw new Error("Chute ID must be provided");
     if (!cordName) throw new Error("Cord name must be provided");
     if (!params || typeof params !== 'object') throw new Error("Parameters must be an object");
     
+    const cordParams = await this.prepareCordParams(chuteId, cordName, params, options);
+    
     // For cord execution, we might want a longer timeout since it could be a long-running operation
-    const cordOptions: RequestOptions = {
+    const cordOptions: RequestOptions = this.withCallOptions(options, {
       ...this.requestOptions,
       timeout: 60000, // 1 minute for cord execution
-    };
+      rateLimiter: this.cordRateLimiter,
+    });
     
     const url = `${this.baseUrl}/chutes/${chuteId}/cords/${cordName}`;
-    const options: RequestInit = {
+    const fetchOptions: RequestInit = {
       method: "POST",
       headers: this.requestOptions.headers,
-      body: JSON.stringify(params),
+      body: JSON.stringify(cordParams),
     };
     
     // Log the cord execution request
-    ApiLogger.request("POST", url, { hasParams: true });
+    ApiLogger.request("POST", url, { params: cordParams }, cordOptions.logger);
     
     // Execute the cord with enhanced error handling
-    const response = await fetchWithRetry<any>(url, options, cordOptions);
+    const response = await fetchWithRetry<any>(url, fetchOptions, cordOptions);
     
     // Log the cord execution response
-    ApiLogger.response("POST", url, response);
+    ApiLogger.response("POST", url, response, cordOptions.logger);
+    this.recordMetrics("POST", url, response, { chuteId, cordName });
     
     if (!response.success) {
-      const errorMessage = response.error?.message || "Unknown API error";
-      throw new Error(`Cord execution failed: ${errorMessage}`);
+      throw fromApiResponse(response, `/chutes/${chuteId}/cords/${cordName}`, "Cord execution failed");
     }
     
     return response.data;
   }
+
+  /**
+   * Execute a cord function and yield its output as it is produced
+   * Uses an idle timeout instead of a total timeout so long generations are not cut off
+   */
+  async *executeCordStream(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options: CordStreamOptions & CordExecutionOptions = {}
+  ): AsyncGenerator<ChutesCordStreamChunk> {
+    if (!chuteId) throw new Error("Chute ID must be provided");
+    if (!cordName) throw new Error("Cord name must be provided");
+    if (!params || typeof params !== 'object') throw new Error("Parameters must be an object");
+    
+    const cordParams = await this.prepareCordParams(chuteId, cordName, params, options);
+    const url = `${this.baseUrl}/chutes/${chuteId}/cords/${cordName}`;
+    
+    try {
+      for await (const { data, event } of this.streamRequest(url, cordParams, options, { chuteId, cordName })) {
+        yield { data, text: extractChunkText(data), event };
+      }
+    } catch (error) {
+      throw toChutesError(error, `/chutes/${chuteId}/cords/${cordName}`, "Cord execution failed");
+    }
+  }
+
+  /**
+   * Create a chat completion using the OpenAI-compatible Chutes LLM endpoint
+   */
+  async createChatCompletion(
+    request: ChutesChatCompletionRequest,
+    options: ChutesRequestOptions = {}
+  ): Promise<ChutesChatCompletion> {
+    const body = await this.prepareChatRequest(request, options.signal);
+    const url = `${this.llmBaseUrl}/chat/completions`;
+    
+    // Generation can take a while, so use the same allowance as cord execution
+    const chatOptions: RequestOptions = this.withCallOptions(options, {
+      ...this.requestOptions,
+      timeout: 60000,
+      fallbackEndpoints: [],
+      rateLimiter: this.cordRateLimiter,
+    });
+    
+    ApiLogger.request("POST", url, { model: body.model, messages: body.messages.length }, chatOptions.logger);
+    
+    const response = await fetchWithRetry<ChutesChatCompletion>(url, {
+      method: "POST",
+      headers: this.requestOptions.headers,
+      body: JSON.stringify({ ...body, stream: false }),
+    }, chatOptions);
+    
+    ApiLogger.response("POST", url, response, chatOptions.logger);
+    this.recordMetrics("POST", url, response);
+    
+    if (!response.success) {
+      throw fromApiResponse(response, "/chat/completions", "Chat completion failed");
+    }
+    
+    return validateResponseData<ChutesChatCompletion>(
+      response.data,
+      ['choices'],
+      { model: body.model }
+    );
+  }
+
+  /**
+   * Stream a chat completion, yielding OpenAI-style delta chunks
+   */
+  async *streamChatCompletion(
+    request: ChutesChatCompletionRequest,
+    options: CordStreamOptions = {}
+  ): AsyncGenerator<ChutesChatCompletionChunk> {
+    const body = await this.prepareChatRequest(request, options.signal);
+    const url = `${this.llmBaseUrl}/chat/completions`;
+    
+    try {
+      for await (const { data } of this.streamRequest(url, { ...body, stream: true }, options)) {
+        if (data && typeof data === 'object' && Array.isArray(data.choices)) {
+          yield data as ChutesChatCompletionChunk;
+        }
+      }
+    } catch (error) {
+      throw toChutesError(error, "/chat/completions", "Chat completion failed");
+    }
+  }
+
+  /**
+   * Validate a chat request and resolve the model to a chute name
+   * A chute ID may be given as the model, in which case the chute's name is used
+   */
+  private async prepareChatRequest(
+    request: ChutesChatCompletionRequest,
+    signal?: AbortSignal
+  ): Promise<ChutesChatCompletionRequest> {
+    if (!request.model) throw new Error("Model (chute name) must be provided");
+    if (!Array.isArray(request.messages) || request.messages.length === 0) {
+      throw new Error("At least one message must be provided");
+    }
+    
+    for (const message of request.messages) {
+      if (!["system", "user", "assistant"].includes(message.role)) {
+        throw new Error(`Unsupported message role: ${message.role}`);
+      }
+      if (typeof message.content !== 'string') {
+        throw new Error("Message content must be a string");
+      }
+    }
+    
+    const model = CHUTE_ID_PATTERN.test(request.model)
+      ? (await this.getChute(request.model, { signal })).name
+      : request.model;
+    
+    return { ...request, model };
+  }
+
+  /**
+   * Make a streaming request and yield each event, parsed as JSON when possible
+   * Sends a POST with a JSON body if one is given, otherwise a GET. The call is
+   * added to the metrics when the stream ends, fails, is aborted or is
+   * abandoned by the caller.
+   */
+  private async *streamRequest(
+    url: string,
+    body: object | undefined,
+    options: CordStreamOptions,
+    cord?: { chuteId: string; cordName: string }
+  ): AsyncGenerator<{ data: any; event?: string }> {
+    const method = body ? "POST" : "GET";
+    const fetchOptions: RequestInit = {
+      method,
+      headers: {
+        ...this.requestOptions.headers,
+        "Accept": "text/event-stream, application/json",
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    };
+    
+    const logger = this.logger.child({ correlationId: createCorrelationId() });
+    ApiLogger.request(method, url, { hasParams: !!body, stream: true }, logger);
+    
+    const events = fetchStream(url, fetchOptions, {
+      idleTimeout: options.idleTimeoutMs ?? this.config.streamIdleTimeoutMs,
+      signal: this.linkSignal(options.signal),
+      // Streams with a body run cords or chat completions; the rest are reads such as build logs
+      rateLimiter: body ? this.cordRateLimiter : this.readRateLimiter,
+      transport: this.requestOptions.transport,
+    });
+    
+    const startTime = Date.now();
+    let failure: ChutesError | undefined;
+    try {
+      for await (const event of events) {
+        if (event.data.trim() === STREAM_DONE_MARKER) break;
+        
+        let data: any;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          data = event.data;
+        }
+        
+        yield { data, event: event.event };
+      }
+    } catch (error) {
+      ApiLogger.error(method, url, error, logger);
+      failure = toChutesError(error, url);
+      throw error;
+    } finally {
+      // Streams are never retried
+      this.metrics.recordRequest({
+        method,
+        endpoint: url,
+        success: !failure,
+        responseTime: Date.now() - startTime,
+        retries: 0,
+        status: failure?.status,
+        code: failure?.code,
+        cord,
+      });
+    }
+  }
 }
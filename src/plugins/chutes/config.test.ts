@@ -0,0 +1,193 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { ChutesConfigFile, ChutesConfigLayer, LoadChutesConfigOptions, formatConfigSources, loadChutesConfig } from "./config.js";
+import { ValidationError } from "../../common/utils.js";
+
+describe("loadChutesConfig", () => {
+  let workDir: string;
+  let configPath: string;
+  let envFile: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "chutes-config-"));
+    configPath = path.join(workDir, "config.json");
+    envFile = path.join(workDir, ".env");
+    writeConfig({ profiles: { default: { apiKey: "file-key" } } });
+    fs.writeFileSync(envFile, "");
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(file: ChutesConfigFile): void {
+    fs.writeFileSync(configPath, JSON.stringify(file));
+  }
+
+  function load(options: LoadChutesConfigOptions = {}) {
+    return loadChutesConfig({ configPath, envFile, env: {}, ...options });
+  }
+
+  describe("precedence", () => {
+    type Layers = Partial<Record<Exclude<ChutesConfigLayer, "file">, boolean>>;
+
+    // The file layer always sets apiKey to "file-key"
+    function loadWith(layers: Layers) {
+      if (layers.dotenv) fs.writeFileSync(envFile, "CHUTES_API_KEY=dotenv-key\n");
+      return load({
+        defaults: layers.default ? { apiKey: "default-key" } : undefined,
+        env: layers.env ? { CHUTES_API_KEY: "env-key" } : {},
+        secrets: layers.secrets ? { CHUTES_API_KEY: "secrets-key" } : undefined,
+        getSetting: layers.runtime ? name => (name === "CHUTES_API_KEY" ? "runtime-key" : undefined) : undefined,
+        options: layers.options ? { apiKey: "options-key" } : undefined,
+      });
+    }
+
+    it.each<[Layers, ChutesConfigLayer, string]>([
+      [{ default: true }, "file", "file-key"],
+      [{ default: true, dotenv: true }, "dotenv", "CHUTES_API_KEY"],
+      [{ dotenv: true, env: true }, "env", "CHUTES_API_KEY"],
+      [{ env: true, secrets: true }, "secrets", "CHUTES_API_KEY"],
+      [{ secrets: true, runtime: true }, "runtime", "CHUTES_API_KEY"],
+      [{ default: true, dotenv: true, env: true, secrets: true, runtime: true, options: true }, "options", "apiKey"],
+    ])("with %j, takes apiKey from %s", (layers, layer, name) => {
+      const resolved = loadWith(layers);
+
+      expect(resolved.config.apiKey).toBe(`${layer}-key`);
+      expect(resolved.sources.apiKey).toEqual({ layer, name: layer === "file" ? `${configPath}#profiles.default.apiKey` : name });
+    });
+
+    it("keeps defaults no layer sets, and records them as defaults", () => {
+      const resolved = load({ defaults: { apiKey: "default-key", timeoutMs: 1000, streamIdleTimeoutMs: 5 } });
+
+      expect(resolved.config).toMatchObject({ apiKey: "file-key", timeoutMs: 1000, streamIdleTimeoutMs: 5 });
+      expect(resolved.sources.timeoutMs).toEqual({ layer: "default", name: "timeoutMs" });
+    });
+
+    it("treats empty values as unset", () => {
+      const resolved = load({ env: { CHUTES_API_KEY: "" }, getSetting: () => null, options: { apiKey: "" } });
+
+      expect(resolved.config.apiKey).toBe("file-key");
+    });
+
+    it("doesn't change process.env when reading the .env file", () => {
+      fs.writeFileSync(envFile, "CHUTES_TEST_ONLY_VARIABLE=1\n");
+      load();
+
+      expect(process.env.CHUTES_TEST_ONLY_VARIABLE).toBeUndefined();
+    });
+  });
+
+  describe("profiles", () => {
+    beforeEach(() => {
+      writeConfig({
+        defaultProfile: "prod",
+        profiles: {
+          default: { apiKey: "default-file-key" },
+          prod: { apiKey: "prod-file-key", baseUrl: "https://prod.example" },
+          staging: { apiKey: "staging-file-key" },
+        },
+      });
+    });
+
+    it.each<[string, LoadChutesConfigOptions, string]>([
+      ["the file's default profile", {}, "prod"],
+      ["CHUTES_PROFILE", { env: { CHUTES_PROFILE: "staging" } }, "staging"],
+      ["the runtime's CHUTES_PROFILE", { env: { CHUTES_PROFILE: "prod" }, getSetting: name => (name === "CHUTES_PROFILE" ? "staging" : undefined) }, "staging"],
+      ["the profile option", { env: { CHUTES_PROFILE: "prod" }, profile: "default" }, "default"],
+    ])("selects %s", (_, options, profile) => {
+      const resolved = load(options);
+
+      expect(resolved.profile).toBe(profile);
+      expect(resolved.config.apiKey).toBe(`${profile}-file-key`);
+    });
+
+    it("puts plain CHUTES_* variables below a named profile's file settings", () => {
+      const resolved = load({ env: { CHUTES_API_KEY: "shared-key", CHUTES_RETRIES: "5" } });
+
+      expect(resolved.config).toMatchObject({ apiKey: "prod-file-key", retries: 5 });
+      expect(resolved.sources.retries).toEqual({ layer: "env", name: "CHUTES_RETRIES" });
+    });
+
+    it("puts CHUTES_<PROFILE>_* variables above the file", () => {
+      fs.writeFileSync(envFile, "CHUTES_PROD_API_BASE_URL=https://dotenv.example\n");
+      const resolved = load({ env: { CHUTES_PROD_API_KEY: "prod-env-key" } });
+
+      expect(resolved.config).toMatchObject({ apiKey: "prod-env-key", baseUrl: "https://dotenv.example" });
+      expect(resolved.sources).toMatchObject({
+        apiKey: { layer: "env", name: "CHUTES_PROD_API_KEY" },
+        baseUrl: { layer: "dotenv", name: "CHUTES_PROD_API_BASE_URL" },
+      });
+    });
+
+    it("normalizes profile names in variable names", () => {
+      const resolved = load({ profile: "eu-west.2", env: { "CHUTES_EU_WEST_2_API_KEY": "eu-key" } });
+
+      expect(resolved.config.apiKey).toBe("eu-key");
+    });
+
+    it("rejects an unknown profile instead of falling back", () => {
+      expect(() => load({ profile: "stagign", env: { CHUTES_API_KEY: "shared-key" } })).toThrow(
+        /Unknown Chutes profile "stagign": not in .*config\.json and no CHUTES_STAGIGN_\* variables are set/
+      );
+      expect(() => load({ profile: "other", configPath: false })).toThrow(/not in any config file/);
+    });
+  });
+
+  describe("values", () => {
+    it("parses numbers and lists from variables and the file", () => {
+      writeConfig({ profiles: { default: { fallbackEndpoints: ["https://a.example"], timeoutMs: 1000 } } });
+
+      const resolved = load({ env: { CHUTES_FALLBACK_ENDPOINTS: " https://b.example, ,https://c.example", CHUTES_RETRIES: "0" } });
+
+      expect(resolved.config).toMatchObject({
+        fallbackEndpoints: ["https://b.example", "https://c.example"],
+        timeoutMs: 1000,
+        retries: 0,
+      });
+    });
+
+    it.each<[string, LoadChutesConfigOptions]>([
+      ["an invalid number", { env: { CHUTES_TIMEOUT_MS: "soon" } }],
+      ["a negative number", { env: { CHUTES_RETRIES: "-1" } }],
+    ])("rejects %s", (_, options) => {
+      expect(() => load(options)).toThrow(ValidationError);
+    });
+
+    it("rejects a config file that can't be used", () => {
+      fs.writeFileSync(configPath, "{ not json");
+      expect(() => load()).toThrow(/is not valid JSON/);
+
+      writeConfig({} as ChutesConfigFile);
+      expect(() => load()).toThrow(/needs a "profiles" object/);
+
+      expect(() => load({ configPath: path.join(workDir, "missing.json") })).toThrow(/Cannot read Chutes config file/);
+      expect(() => load({ env: { CHUTES_CONFIG_FILE: path.join(workDir, "missing.json") }, configPath: undefined })).toThrow(
+        /Cannot read Chutes config file/
+      );
+    });
+
+    it("reads no file when configPath is false", () => {
+      const resolved = load({ configPath: false, env: { CHUTES_API_KEY: "env-key" } });
+
+      expect(resolved).toEqual({
+        profile: "default",
+        config: { apiKey: "env-key" },
+        sources: { apiKey: { layer: "env", name: "CHUTES_API_KEY" } },
+        configPath: undefined,
+      });
+    });
+  });
+
+  it("describes sources without revealing values", () => {
+    const resolved = load({ env: { CHUTES_RETRIES: "2" } });
+
+    expect(formatConfigSources(resolved)).toBe([
+      "profile: default",
+      `apiKey: file (${configPath}#profiles.default.apiKey)`,
+      "retries: env (CHUTES_RETRIES)",
+    ].join("\n"));
+  });
+});
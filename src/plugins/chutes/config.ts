@@ -0,0 +1,256 @@
+/**
+ * Layered configuration for the Chutes client
+ *
+ * Settings are resolved from these layers, later ones winning:
+ * 1. defaults passed by the caller
+ * 2. the active profile of the config file (~/.chutes/config.json)
+ * 3. the .env file in the working directory
+ * 4. environment variables
+ * 5. the character's settings.secrets, or the agent runtime's getSetting
+ * 6. explicit options
+ *
+ * Profiles let one agent use several accounts, e.g. staging and prod. For a
+ * named profile, `CHUTES_<PROFILE>_*` variables apply in layers 3 to 5, and
+ * plain `CHUTES_*` variables drop below the file, so a shared
+ * CHUTES_API_KEY never replaces a profile's own key. Every resolved value
+ * records where it came from.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import dotenv from "dotenv";
+
+import { ChutesClientConfig } from "./client.js";
+import { ValidationError } from "../../common/utils.js";
+
+/**
+ * Settings that can come from the config file, environment or secrets
+ */
+export type ChutesConfigKey = "apiKey" | "baseUrl" | "llmBaseUrl" | "fallbackEndpoints" | "timeoutMs" | "retries";
+
+export type ChutesConfigLayer = "default" | "file" | "dotenv" | "env" | "secrets" | "runtime" | "options";
+
+/**
+ * Where a resolved setting came from
+ */
+export interface ChutesConfigSource {
+  layer: ChutesConfigLayer;
+  name: string;  // Variable name, or file path and JSON path
+}
+
+/**
+ * Contents of a config file
+ */
+export interface ChutesConfigFile {
+  defaultProfile?: string;
+  profiles: Record<string, Partial<Pick<ChutesClientConfig, ChutesConfigKey>>>;
+}
+
+/**
+ * Options for loading the configuration
+ */
+export interface LoadChutesConfigOptions {
+  profile?: string;  // Defaults to CHUTES_PROFILE, then the file's defaultProfile, then "default"
+  configPath?: string | false;  // Defaults to CHUTES_CONFIG_FILE, then ~/.chutes/config.json
+  envFile?: string | false;  // .env file to read without changing process.env (default ".env")
+  env?: Record<string, string | undefined>;  // Defaults to process.env
+  secrets?: Record<string, string | undefined>;  // An Eliza character's settings.secrets
+  getSetting?: (name: string) => string | null | undefined;  // An agent runtime's getSetting
+  defaults?: Partial<ChutesClientConfig>;
+  options?: Partial<ChutesClientConfig>;
+}
+
+/**
+ * The resolved configuration and the source of each setting
+ */
+export interface ResolvedChutesConfig {
+  profile: string;
+  config: Partial<ChutesClientConfig>;
+  sources: Partial<Record<ChutesConfigKey, ChutesConfigSource>>;
+  configPath?: string;  // Config file that was read, if any
+}
+
+export const DEFAULT_CHUTES_PROFILE = "default";
+
+export const DEFAULT_CHUTES_CONFIG_PATH = path.join(os.homedir(), ".chutes", "config.json");
+
+/**
+ * Settings read from variables, with the variable name after the CHUTES_ prefix
+ */
+const CONFIG_VARIABLES: Record<ChutesConfigKey, { suffix: string; type: "string" | "number" | "list" }> = {
+  apiKey: { suffix: "API_KEY", type: "string" },
+  baseUrl: { suffix: "API_BASE_URL", type: "string" },
+  llmBaseUrl: { suffix: "LLM_BASE_URL", type: "string" },
+  fallbackEndpoints: { suffix: "FALLBACK_ENDPOINTS", type: "list" },
+  timeoutMs: { suffix: "TIMEOUT_MS", type: "number" },
+  retries: { suffix: "RETRIES", type: "number" },
+};
+
+const CONFIG_KEYS = Object.keys(CONFIG_VARIABLES) as ChutesConfigKey[];
+
+/**
+ * Resolve the client configuration from every layer
+ */
+export function loadChutesConfig(options: LoadChutesConfigOptions = {}): ResolvedChutesConfig {
+  const env = options.env || process.env;
+  const secrets = options.secrets || {};
+  const dotenvVars = readEnvFile(options.envFile);
+  const fromRuntime = (name: string) => present(options.getSetting?.(name) ?? undefined);
+  const lookup = (name: string) =>
+    fromRuntime(name) ?? present(secrets[name]) ?? present(env[name]) ?? present(dotenvVars[name]);
+
+  // Only the default location may be missing; a file that was asked for must exist
+  const requestedPath = options.configPath === false ? undefined : options.configPath || lookup("CHUTES_CONFIG_FILE");
+  const configPath = options.configPath === false ? undefined : requestedPath || DEFAULT_CHUTES_CONFIG_PATH;
+  const file = configPath ? readConfigFile(configPath, !!requestedPath) : undefined;
+
+  const profileFromVariables = lookup("CHUTES_PROFILE");
+  const profile = options.profile || profileFromVariables || file?.defaultProfile || DEFAULT_CHUTES_PROFILE;
+  const profilePrefix = `CHUTES_${profile.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+  const profileSettings = file?.profiles[profile];
+
+  const config: Partial<ChutesClientConfig> = { ...options.defaults };
+  const sources: ResolvedChutesConfig["sources"] = {};
+  const set = (key: ChutesConfigKey, value: unknown, source: ChutesConfigSource) => {
+    (config as Record<string, unknown>)[key] = value;
+    sources[key] = source;
+  };
+
+  for (const key of CONFIG_KEYS) {
+    if (options.defaults?.[key] !== undefined) {
+      sources[key] = { layer: "default", name: key };
+    }
+  }
+
+  const variableLayers: Array<[ChutesConfigLayer, (name: string) => string | undefined]> = [
+    ["dotenv", name => present(dotenvVars[name])],
+    ["env", name => present(env[name])],
+    ["secrets", name => present(secrets[name])],
+    ["runtime", fromRuntime],
+  ];
+  const applyVariables = (prefix: string): boolean => {
+    let found = false;
+    for (const [layer, read] of variableLayers) {
+      for (const key of CONFIG_KEYS) {
+        const name = `${prefix}${CONFIG_VARIABLES[key].suffix}`;
+        const value = read(name);
+        if (value === undefined) continue;
+        set(key, parseValue(key, value, name), { layer, name });
+        found = true;
+      }
+    }
+    return found;
+  };
+  const applyFile = () => {
+    for (const key of CONFIG_KEYS) {
+      if (profileSettings?.[key] === undefined) continue;
+      const name = `${configPath}#profiles.${profile}.${key}`;
+      set(key, parseValue(key, profileSettings[key], name), { layer: "file", name });
+    }
+  };
+
+  let profileVariablesFound = false;
+  if (profile === DEFAULT_CHUTES_PROFILE) {
+    applyFile();
+    applyVariables("CHUTES_");
+  } else {
+    applyVariables("CHUTES_");
+    applyFile();
+    profileVariablesFound = applyVariables(profilePrefix);
+  }
+
+  // A misspelled profile must not silently fall back to another account's settings
+  if (profile !== DEFAULT_CHUTES_PROFILE && !profileSettings && !profileVariablesFound) {
+    throw new ValidationError(
+      `Unknown Chutes profile "${profile}": not in ${file ? configPath : "any config file"} and no ${profilePrefix}* variables are set`,
+      "profile"
+    );
+  }
+
+  for (const [key, value] of Object.entries(options.options || {})) {
+    if (present(value) === undefined) continue;
+    (config as Record<string, unknown>)[key] = value;
+    if ((CONFIG_KEYS as string[]).includes(key)) {
+      sources[key as ChutesConfigKey] = { layer: "options", name: key };
+    }
+  }
+
+  return { profile, config, sources, configPath: file ? configPath : undefined };
+}
+
+/**
+ * Describe where each setting came from, one per line, without revealing values
+ */
+export function formatConfigSources(resolved: ResolvedChutesConfig): string {
+  const lines = [`profile: ${resolved.profile}`];
+  for (const key of CONFIG_KEYS) {
+    const source = resolved.sources[key];
+    if (source) lines.push(`${key}: ${source.layer} (${source.name})`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Read and check a config file
+ */
+function readConfigFile(configPath: string, required: boolean): ChutesConfigFile | undefined {
+  let text: string;
+  try {
+    text = fs.readFileSync(configPath, "utf8");
+  } catch (error) {
+    if (!required && (error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw new ValidationError(`Cannot read Chutes config file ${configPath}: ${(error as Error).message}`, "configPath");
+  }
+
+  let file: ChutesConfigFile;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new ValidationError(`Chutes config file ${configPath} is not valid JSON: ${(error as Error).message}`, "configPath");
+  }
+  if (!file || typeof file !== "object" || !file.profiles || typeof file.profiles !== "object") {
+    throw new ValidationError(`Chutes config file ${configPath} needs a "profiles" object`, "configPath");
+  }
+  return file;
+}
+
+function readEnvFile(envFile: string | false | undefined): Record<string, string> {
+  if (envFile === false) return {};
+  try {
+    return dotenv.parse(fs.readFileSync(envFile || ".env"));
+  } catch (error) {
+    if (envFile === undefined && (error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new ValidationError(`Cannot read env file ${envFile || ".env"}: ${(error as Error).message}`, "envFile");
+  }
+}
+
+/**
+ * Convert a file value or variable to the setting's type
+ */
+function parseValue(key: ChutesConfigKey, value: unknown, name: string): unknown {
+  const { type } = CONFIG_VARIABLES[key];
+
+  if (type === "number") {
+    const parsed = typeof value === "number" ? value : Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new ValidationError(`${name} must be a non-negative number`, key);
+    }
+    return parsed;
+  }
+  if (type === "list") {
+    const list = Array.isArray(value) ? value : String(value).split(",");
+    return list.map(item => String(item).trim()).filter(item => item.length > 0);
+  }
+  if (typeof value !== "string") {
+    throw new ValidationError(`${name} must be a string`, key);
+  }
+  return value;
+}
+
+/**
+ * Empty strings count as unset, like unset environment variables
+ */
+function present<T>(value: T | undefined): T | undefined {
+  return value === "" || value === null ? undefined : value ?? undefined;
+}
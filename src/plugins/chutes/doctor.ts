@@ -0,0 +1,232 @@
+/**
+ * Chutes Doctor
+ *
+ * Diagnostic checks for a Chutes setup: URL and DNS, reachability of the
+ * base and fallback endpoints, clock skew, authentication, developer status
+ * and whether each chute's cords can be listed. Register them on a
+ * DiagnosticsRunner and gate deployments on the report.
+ */
+
+import { promises as dns } from "dns";
+
+import { ChutesApiClient } from "./types.js";
+import { HttpTransport, defaultTransport } from "../../common/api-utils.js";
+import { DiagnosticCheck, DiagnosticOutcome, DiagnosticsRunner, DiagnosticsRunnerOptions } from "../../common/diagnostics.js";
+
+/**
+ * What the Chutes checks run against
+ */
+export interface ChutesDoctorOptions {
+  client: ChutesApiClient;
+  baseUrl: string;
+  fallbackEndpoints?: string[];
+  chutes?: string[];  // Chute IDs or names whose cords are checked; every chute if empty
+  maxClockSkewMs?: number;  // Larger differences from the server clock fail (default 60 seconds)
+  transport?: HttpTransport;  // Sends the reachability and clock requests; the global fetch by default
+}
+
+const DEFAULT_MAX_CLOCK_SKEW_MS = 60000;
+
+/**
+ * Create the Chutes diagnostic checks
+ */
+export function createChutesChecks(options: ChutesDoctorOptions): DiagnosticCheck[] {
+  const { client } = options;
+  const send = options.transport || defaultTransport;
+  const maxClockSkewMs = options.maxClockSkewMs ?? DEFAULT_MAX_CLOCK_SKEW_MS;
+  const fallbackEndpoints = options.fallbackEndpoints || [];
+
+  const checks: DiagnosticCheck[] = [
+    {
+      id: "url",
+      description: "Base URL is a valid HTTP(S) URL",
+      severity: "error",
+      run: async () => {
+        const url = parseHttpUrl(options.baseUrl);
+        return { message: url.origin };
+      },
+    },
+    {
+      id: "dns",
+      description: "Base URL host resolves",
+      severity: "error",
+      dependsOn: ["url"],
+      run: async () => {
+        const { hostname } = parseHttpUrl(options.baseUrl);
+        const addresses = await dns.lookup(hostname, { all: true });
+        return {
+          message: `${hostname} resolves to ${addresses.map(entry => entry.address).join(", ")}`,
+          details: { addresses: addresses.map(entry => entry.address) },
+        };
+      },
+    },
+    {
+      id: "reachability",
+      description: "Base URL answers HTTP requests",
+      severity: "error",
+      dependsOn: ["dns"],
+      run: async ({ signal }) => {
+        const response = await send(options.baseUrl, { method: "HEAD", signal });
+        return { message: `HTTP ${response.status}`, details: { status: response.status } };
+      },
+    },
+    {
+      id: "clock-skew",
+      description: "Local clock agrees with the API server",
+      severity: "warning",
+      dependsOn: ["reachability"],
+      run: async ({ signal }) => {
+        const sentAt = Date.now();
+        const response = await send(options.baseUrl, { method: "HEAD", signal });
+        const receivedAt = Date.now();
+
+        const serverDate = Date.parse(response.headers.get("date") || "");
+        if (Number.isNaN(serverDate)) {
+          return { skipped: true, message: "The server did not send a Date header" };
+        }
+
+        // The Date header has one-second resolution, so allow for that and the round trip
+        const skewMs = serverDate - (sentAt + receivedAt) / 2;
+        const toleranceMs = maxClockSkewMs + 1000 + (receivedAt - sentAt) / 2;
+        const message = `Local clock is ${Math.abs(Math.round(skewMs / 1000))}s ${skewMs > 0 ? "behind" : "ahead of"} the server`;
+        if (Math.abs(skewMs) > toleranceMs) {
+          throw new Error(`${message} (allowed: ${maxClockSkewMs / 1000}s)`);
+        }
+        return { message, details: { skewMs: Math.round(skewMs) } };
+      },
+    },
+    {
+      id: "fallback-endpoints",
+      description: "Fallback endpoints answer HTTP requests",
+      severity: "warning",
+      dependsOn: ["url"],
+      run: async ({ signal }) => {
+        if (fallbackEndpoints.length === 0) {
+          return { skipped: true, message: "No fallback endpoints configured" };
+        }
+
+        const results = await Promise.all(fallbackEndpoints.map(async endpoint => {
+          try {
+            const response = await send(parseHttpUrl(endpoint).href, { method: "HEAD", signal });
+            return { endpoint, status: response.status };
+          } catch (error) {
+            return { endpoint, error: error instanceof Error ? error.message : String(error) };
+          }
+        }));
+
+        const unreachable = results.filter(result => "error" in result);
+        if (unreachable.length > 0) {
+          throw new Error(`Unreachable: ${unreachable.map(result => `${result.endpoint} (${result.error})`).join(", ")}`);
+        }
+        return { message: `${results.length} reachable`, details: { endpoints: results } };
+      },
+    },
+    {
+      id: "auth",
+      description: "API key is accepted",
+      severity: "error",
+      dependsOn: ["reachability"],
+      run: async ({ signal }) => {
+        const user = await client.getUserInfo({ signal });
+        return { message: `Authenticated as ${user.username || user.user || "unknown user"}` };
+      },
+    },
+    {
+      id: "developer",
+      description: "Account has developer access for deploying images and chutes",
+      severity: "warning",
+      dependsOn: ["auth"],
+      run: async ({ signal }) => {
+        const status = await client.checkDeveloperStatus({ signal });
+        if (!status.isDeveloper) {
+          throw new Error(status.requirementMessage || "The account is not a developer");
+        }
+        return { message: "Developer access enabled" };
+      },
+    },
+  ];
+
+  if (options.chutes && options.chutes.length > 0) {
+    for (const chute of options.chutes) {
+      checks.push({
+        id: `cords:${chute}`,
+        description: `Cords of chute ${chute} can be listed`,
+        severity: "error",
+        dependsOn: ["auth"],
+        run: ({ signal }) => checkChuteCords(client, chute, signal),
+      });
+    }
+  } else {
+    checks.push({
+      id: "cords",
+      description: "Cords of every chute can be listed",
+      severity: "error",
+      dependsOn: ["auth"],
+      run: async ({ signal }) => {
+        const chutes = await client.listChutes({ signal });
+        if (chutes.length === 0) {
+          return { skipped: true, message: "The account has no chutes" };
+        }
+
+        const results = await Promise.all(chutes.map(async chute => {
+          try {
+            const cords = await client.listCords(chute.id, { signal });
+            return { chute: chute.name, cords: cords.map(cord => cord.name) };
+          } catch (error) {
+            return { chute: chute.name, error: error instanceof Error ? error.message : String(error) };
+          }
+        }));
+
+        const failed = results.filter(result => "error" in result);
+        if (failed.length > 0) {
+          throw new Error(`Cords unavailable for ${failed.map(result => `${result.chute} (${result.error})`).join(", ")}`);
+        }
+        return { message: `${chutes.length} chute${chutes.length === 1 ? "" : "s"} checked`, details: { chutes: results } };
+      },
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Create a runner with every Chutes check registered
+ */
+export function createChutesDoctor(
+  options: ChutesDoctorOptions,
+  runnerOptions: DiagnosticsRunnerOptions = {}
+): DiagnosticsRunner {
+  return new DiagnosticsRunner({ name: "chutes-doctor", ...runnerOptions }).register(...createChutesChecks(options));
+}
+
+async function checkChuteCords(client: ChutesApiClient, idOrName: string, signal: AbortSignal): Promise<DiagnosticOutcome> {
+  const chutes = await client.listChutes({ signal });
+  const chute = chutes.find(candidate =>
+    candidate.id === idOrName || candidate.name.toLowerCase() === idOrName.toLowerCase()
+  );
+  if (!chute) {
+    throw new Error(`No chute with ID or name "${idOrName}"`);
+  }
+
+  const cords = await client.listCords(chute.id, { signal });
+  if (cords.length === 0) {
+    throw new Error(`Chute ${chute.name} has no cords`);
+  }
+  return {
+    message: `${chute.status}; cords: ${cords.map(cord => cord.name).join(", ")}`,
+    details: { chuteId: chute.id, status: chute.status, cords: cords.map(cord => cord.name) },
+  };
+}
+
+function parseHttpUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`"${value}" is not a valid URL`);
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`"${value}" must use http or https`);
+  }
+  return url;
+}
@@ -0,0 +1,222 @@
+/**
+ * Error classes for the Chutes API plugin
+ *
+ * Every error raised by ChutesClient for a failed API call is a ChutesError,
+ * so callers can branch on `instanceof` instead of on message wording.
+ */
+
+import {
+  ApiResponse,
+  ApiResponseError,
+  ApiTimeoutError,
+} from "../../common/api-utils.js";
+import { DeveloperDepositInfo } from "./types.js";
+
+/**
+ * Context attached to a Chutes API error
+ */
+export interface ChutesErrorDetails {
+  status?: number;
+  endpoint?: string;
+  requestId?: string;
+  body?: any;
+  code?: string;
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class for errors raised by the Chutes API client
+ */
+export class ChutesError extends Error {
+  status?: number;
+  endpoint?: string;
+  requestId?: string;
+  body?: any;
+  code?: string;
+
+  constructor(message: string, details: ChutesErrorDetails = {}) {
+    super(message);
+    this.name = "ChutesError";
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.code = details.code;
+  }
+}
+
+/**
+ * Error raised when the requested resource does not exist (HTTP 404)
+ */
+export class ChutesNotFoundError extends ChutesError {
+  constructor(message: string, details: ChutesErrorDetails = {}) {
+    super(message, { code: "NOT_FOUND", ...details });
+    this.name = "ChutesNotFoundError";
+  }
+}
+
+/**
+ * Error raised when the API key is missing, invalid or lacks permission (HTTP 401/403)
+ */
+export class ChutesAuthError extends ChutesError {
+  constructor(message: string, details: ChutesErrorDetails = {}) {
+    super(message, { code: "AUTH_ERROR", ...details });
+    this.name = "ChutesAuthError";
+  }
+}
+
+/**
+ * Error raised when the API rejects a request because of rate limiting (HTTP 429)
+ */
+export class ChutesRateLimitError extends ChutesError {
+  constructor(
+    message: string,
+    details: ChutesErrorDetails = {},
+    public retryAfterMs?: number
+  ) {
+    super(message, { code: "RATE_LIMITED", ...details });
+    this.name = "ChutesRateLimitError";
+  }
+}
+
+/**
+ * Error raised when an operation requires developer status the account doesn't have
+ */
+export class ChutesDeveloperRequiredError extends ChutesError {
+  constructor(
+    message: string,
+    details: ChutesErrorDetails = {},
+    public requirementMessage?: string,
+    public depositInfo?: DeveloperDepositInfo
+  ) {
+    super(message, { code: "DEVELOPER_REQUIRED", ...details });
+    this.name = "ChutesDeveloperRequiredError";
+  }
+}
+
+/**
+ * Error raised when a request or operation takes too long
+ */
+export class ChutesTimeoutError extends ChutesError {
+  constructor(message: string, details: ChutesErrorDetails = {}) {
+    super(message, { code: "TIMEOUT", ...details });
+    this.name = "ChutesTimeoutError";
+  }
+}
+
+/**
+ * Error raised when the API cannot be reached
+ */
+export class ChutesNetworkError extends ChutesError {
+  constructor(message: string, details: ChutesErrorDetails = {}) {
+    super(message, { code: "NETWORK_ERROR", ...details });
+    this.name = "ChutesNetworkError";
+  }
+}
+
+/**
+ * Error raised when a chute ends up in a status other than the one being waited for
+ */
+export class ChuteStatusError extends ChutesError {
+  constructor(
+    message: string,
+    public chuteId: string,
+    public chuteStatus: string,
+    public targetStatus: string[]
+  ) {
+    super(message, { code: "CHUTE_STATUS" });
+    this.name = "ChuteStatusError";
+  }
+}
+
+/**
+ * Create the error class matching an HTTP status or error code
+ *
+ * @param message Error message
+ * @param details Status, endpoint, request ID, body and code of the failure
+ */
+export function createChutesError(message: string, details: ChutesErrorDetails = {}): ChutesError {
+  if (details.status === 401 || details.status === 403) {
+    return new ChutesAuthError(message, details);
+  }
+  if (details.status === 404) {
+    return new ChutesNotFoundError(message, details);
+  }
+  if (details.status === 429) {
+    return new ChutesRateLimitError(message, details, details.retryAfterMs);
+  }
+  if (details.status === 408 || details.status === 504 || details.code === "TIMEOUT") {
+    return new ChutesTimeoutError(message, details);
+  }
+  if (details.code === "NETWORK_ERROR") {
+    return new ChutesNetworkError(message, details);
+  }
+  return new ChutesError(message, details);
+}
+
+/**
+ * Convert a failed ApiResponse into a typed error
+ *
+ * @param response The failed response
+ * @param endpoint API endpoint that was called
+ * @param context Prefix for the error message
+ */
+export function fromApiResponse(
+  response: ApiResponse<unknown>,
+  endpoint: string,
+  context: string = "Chutes API error"
+): ChutesError {
+  const errorMessage = response.error?.message || "Unknown API error";
+  return createChutesError(`${context}: ${errorMessage}`, {
+    status: response.error?.status,
+    endpoint,
+    requestId: response.requestId,
+    body: response.error?.details,
+    code: response.error?.code,
+    retryAfterMs: response.error?.retryAfterMs,
+  });
+}
+
+/**
+ * Convert any error thrown during a request into a typed error
+ * ChutesErrors are returned unchanged.
+ *
+ * @param error The error that was thrown
+ * @param endpoint API endpoint that was called
+ * @param context Prefix for the error message
+ */
+export function toChutesError(
+  error: unknown,
+  endpoint: string,
+  context: string = "Chutes API error"
+): ChutesError {
+  if (error instanceof ChutesError) return error;
+
+  if (error instanceof ApiResponseError) {
+    return createChutesError(`${context}: ${error.message}`, {
+      status: error.status,
+      endpoint,
+      requestId: error.requestId,
+      body: error.responseBody,
+      retryAfterMs: error.retryAfterMs,
+    });
+  }
+
+  if (error instanceof ApiTimeoutError) {
+    return new ChutesTimeoutError(`${context}: ${error.message}`, { endpoint });
+  }
+
+  if (error instanceof Error && error.name === "AbortError") {
+    return new ChutesError(`${context}: Request was aborted`, { endpoint, code: "ABORTED" });
+  }
+
+  if (error instanceof TypeError && error.message.includes("fetch")) {
+    return new ChutesNetworkError(
+      `${context}: Network error: Unable to connect to the server`,
+      { endpoint, body: error.message }
+    );
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return new ChutesError(`${context}: ${errorMessage}`, { endpoint, code: "UNKNOWN_ERROR" });
+}
@@ -0,0 +1,559 @@
+/**
+ * In-memory Chutes API client for tests
+ *
+ * Implements ChutesApiClient without any HTTP, so conversations that list
+ * chutes or execute cords can be unit tested. State is seeded through the
+ * constructor or the add* methods, cord results come from scriptable
+ * handlers, and every call is recorded for assertions.
+ */
+
+import { randomUUID } from "crypto";
+
+import {
+  ChutesApiClient,
+  ChutesChatCompletion,
+  ChutesChatCompletionChunk,
+  ChutesChatCompletionRequest,
+  ChutesChute,
+  ChutesCord,
+  ChutesCordStreamChunk,
+  ChutesImage,
+  ChutesImageBuild,
+  ChutesInstance,
+  ChutesRequestOptions,
+  ChutesUserInfo,
+  CordExecutionOptions,
+  CordStreamOptions,
+  CreateImageParams,
+  DeveloperDepositInfo,
+  ImageBuildOptions,
+  UpdateChuteParams,
+  WaitForStatusOptions,
+} from "./types.js";
+import {
+  ChuteStatusError,
+  ChutesDeveloperRequiredError,
+  ChutesError,
+  ChutesNotFoundError,
+  ChutesTimeoutError,
+} from "./errors.js";
+import { delay } from "../../common/api-utils.js";
+import { JsonSchema } from "../../common/json-schema.js";
+import { validateParams } from "../../common/utils.js";
+
+/**
+ * Produces the result of a cord execution
+ * Return an array or an async iterable to stream several chunks from
+ * executeCordStream; throw a ChutesError to simulate a failure.
+ */
+export type FakeCordHandler = (
+  params: any,
+  context: { chute: ChutesChute; cordName: string }
+) => unknown | Promise<unknown>;
+
+/**
+ * Produces the assistant reply for a chat completion
+ */
+export type FakeChatHandler = (request: ChutesChatCompletionRequest) => string | Promise<string>;
+
+/**
+ * A cord with an optional handler; without one the cord echoes its params
+ */
+export interface FakeCord extends ChutesCord {
+  handler?: FakeCordHandler;
+}
+
+/**
+ * A recorded call to the fake client
+ */
+export interface FakeClientCall {
+  method: keyof ChutesApiClient;
+  args: unknown[];
+}
+
+/**
+ * Initial state of the fake client
+ */
+export interface FakeChutesClientOptions {
+  user?: ChutesUserInfo;
+  deposit?: DeveloperDepositInfo;
+  chutes?: Array<Partial<ChutesChute> & { name: string }>;
+  images?: Array<Partial<ChutesImage> & { name: string }>;
+  cords?: Record<string, FakeCord[]>;  // By chute ID or name
+  instances?: Record<string, Array<Partial<ChutesInstance>>>;  // By chute ID or name
+  chatHandler?: FakeChatHandler;
+  deployStatus?: string;  // Status of newly deployed chutes (default "running")
+}
+
+/**
+ * Chute statuses that mean a deployment will not become ready on its own
+ */
+const FAILED_CHUTE_STATUSES = ["failed", "error"];
+
+/**
+ * Polling defaults for waitForChuteStatus; short, since nothing changes unless a test changes it
+ */
+const FAKE_STATUS_TIMEOUT_MS = 5000;
+const FAKE_STATUS_POLL_INTERVAL_MS = 10;
+
+/**
+ * In-memory implementation of ChutesApiClient
+ */
+export class FakeChutesClient implements ChutesApiClient {
+  readonly calls: FakeClientCall[] = [];
+  user: ChutesUserInfo;
+  deposit: DeveloperDepositInfo;
+  private chutes: ChutesChute[] = [];
+  private images: ChutesImage[] = [];
+  private cords = new Map<string, FakeCord[]>();
+  private instances = new Map<string, ChutesInstance[]>();
+  private failures: Array<{ method: keyof ChutesApiClient; error: Error; remaining: number }> = [];
+  private chatHandler: FakeChatHandler;
+  private deployStatus: string;
+
+  constructor(options: FakeChutesClientOptions = {}) {
+    this.user = options.user || { username: "test-user", is_developer: true };
+    this.deposit = options.deposit || { usd: 250, tao_estimate: 0.5 };
+    this.chatHandler = options.chatHandler || (request => {
+      const prompt = [...request.messages].reverse().find(message => message.role === "user")?.content;
+      return `Fake reply to: ${prompt ?? ""}`;
+    });
+    this.deployStatus = options.deployStatus || "running";
+
+    for (const image of options.images || []) this.addImage(image);
+    for (const chute of options.chutes || []) this.addChute(chute);
+    for (const [chute, cords] of Object.entries(options.cords || {})) {
+      for (const cord of cords) this.addCord(chute, cord);
+    }
+    for (const [chute, instances] of Object.entries(options.instances || {})) {
+      for (const instance of instances) this.addInstance(chute, instance);
+    }
+  }
+
+  /**
+   * Add a chute; missing fields get sensible defaults
+   */
+  addChute(chute: Partial<ChutesChute> & { name: string }): ChutesChute {
+    const created: ChutesChute = {
+      id: randomUUID(),
+      username: this.user.username || "test-user",
+      image_id: this.images[0]?.id || randomUUID(),
+      public: false,
+      created_at: new Date().toISOString(),
+      status: "running",
+      node_selector: { gpu_count: 1, min_vram_gb_per_gpu: 16 },
+      ...chute,
+    };
+    this.chutes.push(created);
+    return created;
+  }
+
+  /**
+   * Add an image; missing fields get sensible defaults
+   */
+  addImage(image: Partial<ChutesImage> & { name: string }): ChutesImage {
+    const created: ChutesImage = {
+      id: randomUUID(),
+      username: this.user.username || "test-user",
+      tag: "latest",
+      public: false,
+      created_at: new Date().toISOString(),
+      status: "built",
+      ...image,
+    };
+    this.images.push(created);
+    return created;
+  }
+
+  /**
+   * Add a cord to a chute, or replace the cord with the same name
+   */
+  addCord(chuteIdOrName: string, cord: FakeCord): void {
+    const chute = this.findChute(chuteIdOrName);
+    const cords = (this.cords.get(chute.id) || []).filter(existing => existing.name !== cord.name);
+    this.cords.set(chute.id, [...cords, cord]);
+  }
+
+  /**
+   * Add a running instance to a chute
+   */
+  addInstance(chuteIdOrName: string, instance: Partial<ChutesInstance> = {}): ChutesInstance {
+    const chute = this.findChute(chuteIdOrName);
+    const created: ChutesInstance = {
+      instance_id: randomUUID(),
+      chute_id: chute.id,
+      active: true,
+      verified: true,
+      created_at: new Date().toISOString(),
+      ...instance,
+    };
+    this.instances.set(chute.id, [...(this.instances.get(chute.id) || []), created]);
+    return created;
+  }
+
+  /**
+   * Script the result of a cord, adding the cord if the chute doesn't have it yet
+   */
+  onCord(chuteIdOrName: string, cordName: string, handler: FakeCordHandler): void {
+    const chute = this.findChute(chuteIdOrName);
+    const existing = this.cords.get(chute.id)?.find(cord => cord.name === cordName);
+    this.addCord(chute.id, { ...existing, name: cordName, handler });
+  }
+
+  /**
+   * Change the status of a chute, e.g. to test waitForChuteStatus
+   */
+  setChuteStatus(chuteIdOrName: string, status: string): void {
+    this.findChute(chuteIdOrName).status = status;
+  }
+
+  /**
+   * Make the next calls of a method fail with an error
+   *
+   * @param method Client method to fail
+   * @param error Error to throw, e.g. a ChutesAuthError
+   * @param times Number of calls that fail (default 1)
+   */
+  failOn(method: keyof ChutesApiClient, error: Error, times: number = 1): void {
+    this.failures.push({ method, error, remaining: times });
+  }
+
+  /**
+   * Get the recorded calls, optionally only those of one method
+   */
+  getCalls(method?: keyof ChutesApiClient): FakeClientCall[] {
+    return method ? this.calls.filter(call => call.method === method) : [...this.calls];
+  }
+
+  /**
+   * Forget recorded calls and scripted failures
+   */
+  resetCalls(): void {
+    this.calls.length = 0;
+    this.failures = [];
+  }
+
+  async checkAuth(options: ChutesRequestOptions = {}): Promise<boolean> {
+    this.record("checkAuth", [options], options.signal);
+    return true;
+  }
+
+  async getUserInfo(options: ChutesRequestOptions = {}): Promise<ChutesUserInfo> {
+    this.record("getUserInfo", [options], options.signal);
+    return { ...this.user };
+  }
+
+  async getDeveloperDepositInfo(options: ChutesRequestOptions = {}): Promise<DeveloperDepositInfo> {
+    this.record("getDeveloperDepositInfo", [options], options.signal);
+    return { ...this.deposit };
+  }
+
+  async checkDeveloperStatus(options: ChutesRequestOptions = {}) {
+    this.record("checkDeveloperStatus", [options], options.signal);
+    if (this.user.is_developer) return { isDeveloper: true };
+
+    return {
+      isDeveloper: false,
+      depositInfo: { ...this.deposit },
+      requirementMessage: this.getRequirementMessage(),
+    };
+  }
+
+  async listImages(options: ChutesRequestOptions = {}): Promise<ChutesImage[]> {
+    this.record("listImages", [options], options.signal);
+    return this.images.map(image => ({ ...image }));
+  }
+
+  async getImage(id: string, options: ChutesRequestOptions = {}): Promise<ChutesImage> {
+    this.record("getImage", [id, options], options.signal);
+    return { ...this.findImage(id) };
+  }
+
+  async createImage(params: CreateImageParams, options: ImageBuildOptions = {}): Promise<ChutesImageBuild> {
+    this.record("createImage", [params, options], options.signal);
+    this.requireDeveloper("Failed to create image");
+
+    const startedAt = new Date().toISOString();
+    const image = this.addImage({
+      name: params.name,
+      tag: params.tag,
+      readme: params.readme,
+      public: params.public ?? false,
+    });
+    options.onLog?.(`Built ${image.name}:${image.tag}`);
+
+    return {
+      imageId: image.id,
+      name: image.name,
+      tag: image.tag,
+      status: "built",
+      startedAt,
+      completedAt: new Date().toISOString(),
+      durationMs: 0,
+      image: { ...image },
+    };
+  }
+
+  async *streamImageBuildLogs(id: string, options: CordStreamOptions = {}): AsyncGenerator<string> {
+    this.record("streamImageBuildLogs", [id, options], options.signal);
+    const image = this.findImage(id);
+    yield `Built ${image.name}:${image.tag}`;
+  }
+
+  async deleteImage(id: string, options: ChutesRequestOptions = {}): Promise<boolean> {
+    this.record("deleteImage", [id, options], options.signal);
+    this.images = this.images.filter(image => image.id !== id);
+    return true;
+  }
+
+  async listChutes(options: ChutesRequestOptions = {}): Promise<ChutesChute[]> {
+    this.record("listChutes", [options], options.signal);
+    return this.chutes.map(chute => ({ ...chute }));
+  }
+
+  async getChute(id: string, options: ChutesRequestOptions = {}): Promise<ChutesChute> {
+    this.record("getChute", [id, options], options.signal);
+    return { ...this.findChute(id) };
+  }
+
+  async deployChute(
+    params: Parameters<ChutesApiClient["deployChute"]>[0],
+    options: ChutesRequestOptions = {}
+  ): Promise<ChutesChute> {
+    this.record("deployChute", [params, options], options.signal);
+    this.requireDeveloper("Failed to deploy chute");
+    this.findImage(params.image_id);
+
+    const chute = this.addChute({ ...params, status: this.deployStatus });
+    return { ...chute };
+  }
+
+  async updateChute(id: string, params: UpdateChuteParams, options: ChutesRequestOptions = {}): Promise<ChutesChute> {
+    this.record("updateChute", [id, params, options], options.signal);
+    const chute = this.findChute(id);
+    Object.assign(chute, params);
+    return { ...chute };
+  }
+
+  async deleteChute(id: string, options: ChutesRequestOptions = {}): Promise<boolean> {
+    this.record("deleteChute", [id, options], options.signal);
+    this.chutes = this.chutes.filter(chute => chute.id !== id);
+    this.cords.delete(id);
+    this.instances.delete(id);
+    return true;
+  }
+
+  async listInstances(chuteId: string, options: ChutesRequestOptions = {}): Promise<ChutesInstance[]> {
+    this.record("listInstances", [chuteId, options], options.signal);
+    const chute = this.findChute(chuteId);
+    return (this.instances.get(chute.id) || []).map(instance => ({ ...instance }));
+  }
+
+  async waitForChuteStatus(
+    id: string,
+    targetStatus: string | string[],
+    options: WaitForStatusOptions = {}
+  ): Promise<ChutesChute> {
+    this.record("waitForChuteStatus", [id, targetStatus, options], options.signal);
+    const targets = (Array.isArray(targetStatus) ? targetStatus : [targetStatus]).map(status => status.toLowerCase());
+    const timeout = options.timeout ?? FAKE_STATUS_TIMEOUT_MS;
+    const deadline = Date.now() + timeout;
+    let lastStatus: string | undefined;
+
+    while (true) {
+      const chute = this.findChute(id);
+      const status = chute.status.toLowerCase();
+      if (status !== lastStatus) options.onStatusChange?.(chute.status, { ...chute });
+      lastStatus = status;
+
+      if (targets.includes(status)) return { ...chute };
+      if (FAILED_CHUTE_STATUSES.includes(status)) {
+        throw new ChuteStatusError(
+          `Chute ${id} moved to status "${chute.status}" while waiting for ${targets.join(" or ")}`,
+          id,
+          chute.status,
+          targets
+        );
+      }
+      if (Date.now() >= deadline) {
+        throw new ChutesTimeoutError(
+          `Chute ${id} did not reach status ${targets.join(" or ")} within ${timeout}ms (last status: ${chute.status})`,
+          { endpoint: `/chutes/${id}` }
+        );
+      }
+
+      await delay(options.pollInterval ?? FAKE_STATUS_POLL_INTERVAL_MS, options.signal);
+    }
+  }
+
+  async listCords(chuteId: string, options: ChutesRequestOptions = {}): Promise<ChutesCord[]> {
+    this.record("listCords", [chuteId, options], options.signal);
+    return this.getCords(chuteId).map(({ handler: _handler, ...cord }) => ({ ...cord }));
+  }
+
+  async executeCord(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options: CordExecutionOptions & ChutesRequestOptions = {}
+  ): Promise<any> {
+    this.record("executeCord", [chuteId, cordName, params, options], options.signal);
+    const result = await this.runCord(chuteId, cordName, params, options);
+
+    // A streaming handler's chunks are collected for callers that don't stream
+    if (isChunkSource(result)) {
+      const chunks: unknown[] = [];
+      for await (const chunk of result) chunks.push(chunk);
+      return chunks;
+    }
+    return result;
+  }
+
+  async *executeCordStream(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options: CordStreamOptions & CordExecutionOptions = {}
+  ): AsyncGenerator<ChutesCordStreamChunk> {
+    this.record("executeCordStream", [chuteId, cordName, params, options], options.signal);
+    const result = await this.runCord(chuteId, cordName, params, options);
+
+    for await (const data of isChunkSource(result) ? result : [result]) {
+      if (options.signal?.aborted) throw abortedError(`/chutes/${chuteId}/cords/${cordName}`);
+      yield { data, text: toChunkText(data) };
+    }
+  }
+
+  async createChatCompletion(
+    request: ChutesChatCompletionRequest,
+    options: ChutesRequestOptions = {}
+  ): Promise<ChutesChatCompletion> {
+    this.record("createChatCompletion", [request, options], options.signal);
+    const content = await this.chatHandler(request);
+
+    return {
+      id: `chatcmpl-${randomUUID()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: request.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    };
+  }
+
+  async *streamChatCompletion(
+    request: ChutesChatCompletionRequest,
+    options: CordStreamOptions = {}
+  ): AsyncGenerator<ChutesChatCompletionChunk> {
+    this.record("streamChatCompletion", [request, options], options.signal);
+    const content = await this.chatHandler(request);
+    const id = `chatcmpl-${randomUUID()}`;
+    const created = Math.floor(Date.now() / 1000);
+
+    for (const part of content.split(/(?<= )/)) {
+      yield {
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model: request.model,
+        choices: [{ index: 0, delta: { content: part }, finish_reason: null }],
+      };
+    }
+  }
+
+  /**
+   * Record a call, then apply cancellation and scripted failures
+   */
+  private record(method: keyof ChutesApiClient, args: unknown[], signal?: AbortSignal): void {
+    this.calls.push({ method, args });
+
+    if (signal?.aborted) throw abortedError();
+
+    const failure = this.failures.find(candidate => candidate.method === method && candidate.remaining > 0);
+    if (failure) {
+      failure.remaining--;
+      throw failure.error;
+    }
+  }
+
+  private async runCord(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options: CordExecutionOptions
+  ): Promise<unknown> {
+    const chute = this.findChute(chuteId);
+    const cord = this.getCords(chute.id).find(candidate => candidate.name === cordName);
+    if (!cord) {
+      throw new ChutesNotFoundError(`Cord execution failed: No matching cord found!`, {
+        status: 404,
+        endpoint: `/chutes/${chuteId}/cords/${cordName}`,
+      });
+    }
+
+    // Validate like the real client, so invalid params fail the same way
+    const schema = options.inputSchema || cord.input_schema;
+    const cordParams = options.validate !== false && schema
+      ? validateParams(params, schema as JsonSchema)
+      : params;
+
+    return cord.handler ? cord.handler(cordParams, { chute: { ...chute }, cordName }) : cordParams;
+  }
+
+  private getCords(chuteIdOrName: string): FakeCord[] {
+    return this.cords.get(this.findChute(chuteIdOrName).id) || [];
+  }
+
+  private findChute(idOrName: string): ChutesChute {
+    const chute = this.chutes.find(candidate => candidate.id === idOrName || candidate.name === idOrName);
+    if (!chute) {
+      throw new ChutesNotFoundError(`Chutes API error: No matching chute found!`, {
+        status: 404,
+        endpoint: `/chutes/${idOrName}`,
+      });
+    }
+    return chute;
+  }
+
+  private findImage(id: string): ChutesImage {
+    const image = this.images.find(candidate => candidate.id === id || candidate.name === id);
+    if (!image) {
+      throw new ChutesNotFoundError(`Chutes API error: No matching image found!`, {
+        status: 404,
+        endpoint: `/images/${id}`,
+      });
+    }
+    return image;
+  }
+
+  private requireDeveloper(context: string): void {
+    if (this.user.is_developer) return;
+    throw new ChutesDeveloperRequiredError(
+      `${context}: ${this.getRequirementMessage()}`,
+      { status: 403 },
+      this.getRequirementMessage(),
+      { ...this.deposit }
+    );
+  }
+
+  private getRequirementMessage(): string {
+    return `To become a developer, you need to deposit approximately ${this.deposit.tao_estimate} TAO (approximately $${this.deposit.usd} USD) to your wallet address.`;
+  }
+}
+
+function abortedError(endpoint?: string): ChutesError {
+  return new ChutesError("Chutes API error: Request was aborted", { endpoint, code: "ABORTED" });
+}
+
+/**
+ * Whether a cord handler returned several chunks to stream
+ */
+function isChunkSource(value: unknown): value is Iterable<unknown> | AsyncIterable<unknown> {
+  return Array.isArray(value)
+    || (!!value && typeof value === "object" && Symbol.asyncIterator in value);
+}
+
+function toChunkText(data: unknown): string | undefined {
+  if (typeof data === "string") return data;
+  const text = (data as { text?: unknown } | null)?.text;
+  return typeof text === "string" ? text : undefined;
+}
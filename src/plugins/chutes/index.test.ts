@@ -0,0 +1,150 @@
+import { ChutesApiPlugin } from "./index.js";
+import { ChutesAuthError } from "./errors.js";
+import { FakeChutesClient } from "./testing.js";
+import { silentLogger } from "../../common/logger.js";
+
+function createPlugin(client: FakeChutesClient) {
+  return new ChutesApiPlugin({ client, logger: silentLogger });
+}
+
+async function run(plugin: ChutesApiPlugin<FakeChutesClient>, name: string, text: string, callback?: (content: any) => Promise<unknown>) {
+  const action = plugin.actions.find(action => action.name === name)!;
+  const message = { user: "user", roomId: "room-1", content: { text } };
+  expect(await action.validate({}, message)).toBe(true);
+  return action.handler({}, message, {}, {}, callback);
+}
+
+describe("ChutesApiPlugin actions with FakeChutesClient", () => {
+  let client: FakeChutesClient;
+  let plugin: ChutesApiPlugin<FakeChutesClient>;
+
+  beforeEach(() => {
+    client = new FakeChutesClient({
+      chutes: [{ name: "my-model" }, { name: "other", status: "deploying" }],
+      images: [{ name: "llm-image" }],
+      cords: {
+        "my-model": [{
+          name: "generate",
+          input_schema: {
+            type: "object",
+            properties: { prompt: { type: "string" }, stream: { type: "boolean" } },
+            required: ["prompt"],
+          },
+        }],
+      },
+    });
+    plugin = createPlugin(client);
+  });
+
+  afterEach(() => {
+    plugin.stop();
+  });
+
+  it("lists chutes", async () => {
+    const result = await run(plugin, "list_chutes", "List all my chutes");
+
+    expect(result.success).toBe(true);
+    expect(result.response).toContain("my-model");
+    expect(result.response).toContain("deploying");
+  });
+
+  it("executes a cord by chute name", async () => {
+    client.onCord("my-model", "generate", params => ({ text: `Hello ${params.prompt}` }));
+
+    const result = await run(plugin, "execute_cord", 'Execute "generate" on chute my-model with {"prompt": "Jon"}');
+
+    expect(result.response).toBe("Result from generate:\n\nHello Jon");
+    expect(client.getCalls("executeCord")).toHaveLength(1);
+  });
+
+  it("rejects params that don't match the cord's schema", async () => {
+    const result = await run(plugin, "execute_cord", 'Execute "generate" on chute my-model with {"text": "Jon"}');
+
+    expect(result.success).toBe(false);
+    expect(result.response).toContain("prompt");
+  });
+
+  it("posts streamed output in paragraphs", async () => {
+    const paragraph = `${"word ".repeat(60).trim()}\n\n`;
+    client.onCord("my-model", "generate", () => Array.from({ length: 6 }, () => ({ text: paragraph })));
+    const posts: string[] = [];
+
+    const result = await run(
+      plugin,
+      "execute_cord",
+      'Execute "generate" on chute my-model with {"prompt": "Jon", "stream": true}',
+      async content => posts.push(content.text)
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.result.chunks).toBe(6);
+    expect(posts.length).toBeLessThan(6);
+    expect(posts.slice(0, -1).every(post => post.length >= 500)).toBe(true);
+    expect(posts.join("\n\n")).toBe(paragraph.repeat(6).trim());
+    expect(result.response).toBe("Finished streaming generate.");
+  });
+
+  it("posts streamed output without paragraph breaks at word breaks", async () => {
+    client.onCord("my-model", "generate", () => Array.from({ length: 400 }, (_, i) => ({ text: `${i ? " " : ""}word` })));
+    const posts: string[] = [];
+
+    await run(
+      plugin,
+      "execute_cord",
+      'Execute "generate" on chute my-model with {"prompt": "Jon", "stream": true}',
+      async content => posts.push(content.text)
+    );
+
+    expect(posts.length).toBeGreaterThan(1);
+    expect(posts[0].length).toBeLessThanOrEqual(1500);
+    expect(posts.join(" ")).toBe(Array(400).fill("word").join(" "));
+  });
+
+  it("posts streamed output that has waited too long", async () => {
+    let now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    client.onCord("my-model", "generate", async function* () {
+      yield { text: "Thinking" };
+      now += 6000;
+      yield { text: " about it" };
+      yield { text: " some more" };
+    });
+    const posts: string[] = [];
+
+    try {
+      await run(
+        plugin,
+        "execute_cord",
+        'Execute "generate" on chute my-model with {"prompt": "Jon", "stream": true}',
+        async content => posts.push(content.text)
+      );
+    } finally {
+      jest.restoreAllMocks();
+    }
+
+    expect(posts).toEqual(["Thinking about", "it some more"]);
+  });
+
+  it("deploys a chute from an image name", async () => {
+    const result = await run(plugin, "deploy_chute", 'Deploy chute "new-llm" from image llm-image with 2 GPUs with 48GB RAM');
+
+    expect(result.success).toBe(true);
+    const [{ args: [params] }] = client.getCalls("deployChute");
+    expect(params).toMatchObject({ name: "new-llm", node_selector: { gpu_count: 2, min_vram_gb_per_gpu: 48 } });
+  });
+
+  it("explains authentication failures", async () => {
+    client.failOn("listChutes", new ChutesAuthError("Invalid API key"));
+
+    const result = await run(plugin, "list_chutes", "List all my chutes");
+
+    expect(result).toEqual({ success: false, response: "Error: Authentication failed. Please check your API key and permissions." });
+  });
+
+  it("summarizes the account for the agent's state", async () => {
+    const summary = await plugin.providers[0].get({}, { user: "user", content: {} });
+
+    expect(summary).toContain("Chutes account: test-user");
+    expect(summary).toContain("- my-model (running; cords: generate)");
+  });
+});
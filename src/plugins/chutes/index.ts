@@ -4,21 +4,37 @@
 
 import {
   ChutesAction,
+  ChutesApiClient,
   ChutesPlugin,
   ChutesPluginConfig,
+  ChutesProvider,
   ChutesChute,
   ChutesImage,
   ChutesCord
 } from "./types.js";
 import { ChutesClient, ChutesClientConfig } from "./client.js";
+import { ChutesConfigKey, ChutesConfigSource, loadChutesConfig } from "./config.js";
+import { createChutesAccountProvider } from "./provider.js";
+import { ChuteStatusMonitorOptions, ChuteStatusService } from "./monitor.js";
 import {
+  ChutesAuthError,
+  ChutesDeveloperRequiredError,
+  ChutesError,
+  ChutesNetworkError,
+  ChutesNotFoundError,
+  ChutesRateLimitError,
+  ChutesTimeoutError,
+} from "./errors.js";
+import {
+  ValidationError,
   validateApiKey,
   validateChuteId,
   validateCordName,
   validateParams,
 } from "../../common/utils.js";
 
-import { ApiLogger } from "../../common/api-utils.js";
+import { RuntimeCacheStore } from "../../common/cache.js";
+import { Logger, createElizaLogger, getDefaultLogger, redactLogger } from "../../common/logger.js";
 
 // Define types to avoid @ai16z/eliza dependency in development
 interface IAgentRuntime {
@@ -27,6 +43,7 @@ interface IAgentRuntime {
 
 // Interface for message content
 interface Memory {
+  roomId?: string;
   content: {
     text: string;
   };
@@ -46,34 +63,44 @@ const DEFAULT_CONFIG: Partial<ChutesClientConfig> = {
   retries: 3
 };
 
-// Load environment variables
-import dotenv from 'dotenv';
-dotenv.config();
+/**
+ * Plugin configuration; the API key is only required when no client is injected
+ */
+export interface ChutesApiPluginConfig<C extends ChutesApiClient = ChutesApiClient> extends Omit<ChutesClientConfig, "apiKey"> {
+  apiKey?: string;
+  profile?: string;  // Config profile to load, e.g. "staging"
+  client?: C;  // Used instead of a ChutesClient, e.g. a FakeChutesClient in tests
+  settingsFromRuntime?: boolean;  // Build one client per agent from runtime.getSetting when an action first runs
+  statusMonitor?: Omit<ChuteStatusMonitorOptions, "logger">;  // Poll intervals of the chute status service
+}
 
 /**
  * Format and standardize error responses
  */
-function formatErrorResponse(error: unknown): { success: false; response: string } {
-  console.error("API Error:", error);
+function formatErrorResponse(error: unknown, logger: Logger): { success: false; response: string } {
+  logger.error("Chutes action failed", { error });
   
   // Create user-friendly error message
   let errorMessage: string;
   
-  if (error instanceof Error) {
-    // Extract API error details if available
-    if (error.message.includes('API error:')) {
-      errorMessage = error.message;
-    } else if (error.message.includes('timed out')) {
-      errorMessage = `The request timed out. Please try again later.`;
-    } else if (error.message.includes('404')) {
-      errorMessage = `The requested resource was not found. Please verify your input.`;
-    } else if (error.message.includes('401') || error.message.includes('403')) {
-      errorMessage = `Authentication failed. Please check your API key and permissions.`;
-    } else if (error.message.includes('Network error')) {
-      errorMessage = `Cannot connect to the Chutes API. Please check your internet connection.`;
-    } else {
-      errorMessage = error.message;
-    }
+  if (error instanceof ChutesTimeoutError) {
+    errorMessage = `The request timed out. Please try again later.`;
+  } else if (error instanceof ChutesNotFoundError) {
+    errorMessage = `The requested resource was not found. Please verify your input.`;
+  } else if (error instanceof ChutesDeveloperRequiredError) {
+    errorMessage = error.message;
+  } else if (error instanceof ChutesAuthError) {
+    errorMessage = `Authentication failed. Please check your API key and permissions.`;
+  } else if (error instanceof ChutesRateLimitError) {
+    errorMessage = error.retryAfterMs
+      ? `The Chutes API is rate limiting requests. Please try again in ${Math.ceil(error.retryAfterMs / 1000)} seconds.`
+      : `The Chutes API is rate limiting requests. Please try again shortly.`;
+  } else if (error instanceof ChutesNetworkError) {
+    errorMessage = `Cannot connect to the Chutes API. Please check your internet connection.`;
+  } else if (error instanceof ChutesError && error.code === "ABORTED") {
+    errorMessage = `The request was cancelled.`;
+  } else if (error instanceof Error) {
+    errorMessage = error.message;
   } else {
     errorMessage = "An unknown error occurred";
   }
@@ -84,21 +111,253 @@ function formatErrorResponse(error: unknown): { success: false; response: string
   };
 }
 
+/**
+ * Shortest streamed cord output posted as a message of its own
+ * Chat clients post every callback as a new message, so streamed output is
+ * sent in whole paragraphs rather than per chunk.
+ */
+const STREAMED_MESSAGE_MIN_LENGTH = 500;
+
+/** Longest streamed output held back while waiting for a paragraph break */
+const STREAMED_MESSAGE_MAX_LENGTH = 1500;
+
+/** Longest time streamed output is held back while waiting for a paragraph break */
+const STREAMED_MESSAGE_MAX_WAIT_MS = 5000;
+
+/**
+ * Split buffered stream output into the part to post now and the part to keep buffering
+ *
+ * Output is split at its last paragraph break once enough has arrived. Output
+ * without paragraph breaks, such as token-by-token LLM text, is split at its
+ * last whitespace once it grows too long or has waited too long.
+ *
+ * @param buffer - Output not yet posted
+ * @param waitedMs - Time since output was last posted
+ * @returns The text to post now (empty if it should wait) and the text to keep buffering
+ */
+function splitStreamedMessage(buffer: string, waitedMs: number): [string, string] {
+  const paragraphEnd = buffer.lastIndexOf("\n\n");
+  if (paragraphEnd >= STREAMED_MESSAGE_MIN_LENGTH) {
+    return [buffer.slice(0, paragraphEnd).trim(), buffer.slice(paragraphEnd + 2)];
+  }
+  if (buffer.length < STREAMED_MESSAGE_MAX_LENGTH && waitedMs < STREAMED_MESSAGE_MAX_WAIT_MS) {
+    return ["", buffer];
+  }
+
+  const wordEnd = buffer.search(/\s\S*$/);
+  if (wordEnd > 0) return [buffer.slice(0, wordEnd).trim(), buffer.slice(wordEnd + 1)];
+  return buffer.length < STREAMED_MESSAGE_MAX_LENGTH ? ["", buffer] : [buffer.trim(), ""];
+}
+
 /**
  * Implementation of the Chutes plugin for Eliza OS with enhanced reliability
  */
-export class ChutesApiPlugin implements ChutesPlugin {
+export class ChutesApiPlugin<C extends ChutesApiClient = ChutesClient> implements ChutesPlugin {
   readonly name: string = "chutes-api";
   readonly description: string = "Interact with the Chutes API for deploying and managing chutes";
   config: ChutesPluginConfig;
-  client: ChutesClient;
+  configSources: Partial<Record<ChutesConfigKey, ChutesConfigSource>> = {};  // Empty when a client is injected
+  private fixedClient?: C;
+  private agentClients = new Map<string, ChutesClient>();
+  private clientOptions: Omit<ChutesApiPluginConfig, "client" | "settingsFromRuntime" | "statusMonitor">;
+  private clientLogger?: Logger;
+  private runtimeCacheAttached = false;
+  private runtimeLoggerAttached: boolean;
+  private cordExecutions = new Map<string, Set<AbortController>>();
+  private statusService: ChuteStatusService;
+  private logger: Logger;
+  private redactFields?: string[];
+
+  constructor(config: ChutesApiPluginConfig<C> = {}) {
+    const { client, settingsFromRuntime, statusMonitor, ...clientOptions } = config;
+    const { profile, ...clientConfig } = clientOptions;
+    this.clientOptions = clientOptions;
+    this.redactFields = config.redactFields;
+    this.logger = redactLogger(config.logger || getDefaultLogger(), this.redactFields);
+    this.statusService = new ChuteStatusService({
+      ...statusMonitor,
+      getClient: runtime => this.useRuntime(runtime),
+      logger: this.logger,
+    });
+    this.services = [this.statusService];
+    
+    if (client) {
+      this.config = { ...DEFAULT_CONFIG, ...clientConfig } as ChutesClientConfig;
+      this.fixedClient = client;
+    } else if (settingsFromRuntime) {
+      // Every agent gets its own client, built from its settings in getAgentClient
+      this.config = { ...DEFAULT_CONFIG, ...clientConfig } as ChutesClientConfig;
+    } else {
+      // Settings the caller leaves out come from the config file, .env and environment
+      const resolved = loadChutesConfig({ profile, defaults: DEFAULT_CONFIG, options: clientConfig });
+      this.config = resolved.config as ChutesClientConfig;
+      this.configSources = resolved.sources;
+      this.logger.debug("Loaded Chutes configuration", { profile: resolved.profile, sources: resolved.sources });
+      validateApiKey(this.config, this.logger);
+      // Without an injected client, C is the default ChutesClient
+      this.fixedClient = new ChutesClient(this.config) as ChutesApiClient as C;
+    }
+    
+    // A configured logger is kept even inside an agent
+    this.runtimeLoggerAttached = !!config.logger;
+  }
+
+  /**
+   * The plugin's client
+   * Unset with settingsFromRuntime, where every agent has its own client;
+   * createChutesPlugin's return type leaves it out, use getClient(runtime).
+   */
+  get client(): C {
+    return this.fixedClient as C;
+  }
+
+  /**
+   * Get the client used for an agent, building it from the agent's settings if needed
+   */
+  getClient(runtime: IAgentRuntime): Promise<ChutesApiClient> {
+    return this.useRuntime(runtime);
+  }
+
+  /**
+   * Attach the plugin to the agent the first time a runtime is seen, and get its client
+   * The client's response cache moves into the runtime's cacheManager, so
+   * cached reads survive restarts, and log entries go to elizaLogger.
+   */
+  private async useRuntime(runtime: IAgentRuntime): Promise<ChutesApiClient> {
+    if (!this.runtimeCacheAttached && runtime?.cacheManager && this.fixedClient instanceof ChutesClient) {
+      this.fixedClient.setCacheStore(new RuntimeCacheStore(runtime.cacheManager));
+      this.runtimeCacheAttached = true;
+    }
+    
+    if (!this.runtimeLoggerAttached && runtime) {
+      this.runtimeLoggerAttached = true;
+      try {
+        // Imported here so the plugin still loads outside an agent
+        const { elizaLogger } = await import("@ai16z/eliza");
+        this.setLogger(createElizaLogger(elizaLogger));
+      } catch {
+        // Not running inside an agent; keep the current logger
+      }
+    }
+    
+    return this.fixedClient ?? this.getAgentClient(runtime);
+  }
+
+  /**
+   * Get the client of an agent, building it from the agent's settings the first time
+   * CHUTES_API_KEY and the other settings come from runtime.getSetting, so
+   * every character can use its own key or profile.
+   */
+  private getAgentClient(runtime: IAgentRuntime): ChutesApiClient {
+    const agentId = String(runtime?.agentId ?? "default");
+    const existing = this.agentClients.get(agentId);
+    if (existing) return existing;
+    
+    const { profile, ...clientConfig } = this.clientOptions;
+    const resolved = loadChutesConfig({
+      profile,
+      getSetting: name => runtime?.getSetting?.(name),
+      defaults: DEFAULT_CONFIG,
+      options: clientConfig,
+    });
+    this.logger.debug("Loaded Chutes configuration", { agentId, profile: resolved.profile, sources: resolved.sources });
+    validateApiKey({ apiKey: resolved.config.apiKey || "" }, this.logger);
+    
+    const client = new ChutesClient({
+      ...resolved.config,
+      apiKey: resolved.config.apiKey || "",
+      ...(this.clientLogger ? { logger: this.clientLogger } : {}),
+    });
+    if (runtime?.cacheManager) {
+      client.setCacheStore(new RuntimeCacheStore(runtime.cacheManager));
+    }
+    this.agentClients.set(agentId, client);
+    return client;
+  }
+  
+  /**
+   * Every client the plugin has built or was given
+   */
+  private getClients(): ChutesApiClient[] {
+    return [...(this.fixedClient ? [this.fixedClient] : []), ...this.agentClients.values()];
+  }
+
+  /**
+   * Replace the logger used by the plugin and its client
+   */
+  setLogger(logger: Logger): void {
+    this.logger = redactLogger(logger, this.redactFields);
+    this.clientLogger = logger;
+    this.statusService.setLogger(this.logger);
+    for (const client of this.getClients()) {
+      if (client instanceof ChutesClient) {
+        client.setLogger(logger);
+      }
+    }
+  }
+
+  /**
+   * Cancel the cord executions running for a room, or for every room if none is given
+   * Use this when a user abandons a conversation.
+   */
+  cancelCordExecutions(roomId?: string): void {
+    const rooms = roomId ? [roomId] : [...this.cordExecutions.keys()];
+    for (const room of rooms) {
+      for (const controller of this.cordExecutions.get(room) || []) {
+        controller.abort();
+      }
+      this.cordExecutions.delete(room);
+    }
+  }
 
-  constructor(config: ChutesPluginConfig) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    validateApiKey(this.config);
-    this.client = new ChutesClient(this.config);
+  /**
+   * Cancel every in-flight request, e.g. when the agent shuts down
+   */
+  stop(): void {
+    this.cancelCordExecutions();
+    this.statusService.stop();
+    for (const client of this.getClients()) {
+      if (client instanceof ChutesClient) {
+        client.abortAll();
+      }
+    }
   }
 
+  /**
+   * Register a cord execution so it can be cancelled with its room
+   */
+  private trackCordExecution(roomId: string = "default"): { signal: AbortSignal; done: () => void } {
+    const controller = new AbortController();
+    const executions = this.cordExecutions.get(roomId) || new Set<AbortController>();
+    executions.add(controller);
+    this.cordExecutions.set(roomId, executions);
+    
+    return {
+      signal: controller.signal,
+      done: () => {
+        executions.delete(controller);
+        if (executions.size === 0 && this.cordExecutions.get(roomId) === executions) {
+          this.cordExecutions.delete(roomId);
+        }
+      },
+    };
+  }
+
+  /**
+   * Providers that add Chutes context to the agent's state
+   */
+  providers: ChutesProvider[] = [
+    createChutesAccountProvider({
+      getClient: runtime => this.useRuntime(runtime),
+      onError: error => this.logger.warn("Could not load the Chutes account summary", { error }),
+    }),
+  ];
+
+  /**
+   * Services started with the agent; the status service reports chute status changes
+   */
+  services: ChuteStatusService[];
+
   /**
    * Actions available in the Chutes plugin
    */
@@ -115,8 +374,9 @@ export class ChutesApiPlugin implements ChutesPlugin {
       validate: async () => true,
       handler: async (runtime, message, state) => {
         try {
-          ApiLogger.request("GET", "/chutes", { action: "list_chutes" });
-          const chutes = await this.client.listChutes();
+          const client = await this.useRuntime(runtime);
+          this.logger.debug("Running action", { action: "list_chutes" });
+          const chutes = await client.listChutes();
           
           if (chutes.length === 0) {
             return {
@@ -137,7 +397,7 @@ export class ChutesApiPlugin implements ChutesPlugin {
             chutes,
           };
         } catch (error) {
-          return formatErrorResponse(error);
+          return formatErrorResponse(error, this.logger);
         }
       }
     },
@@ -162,12 +422,13 @@ export class ChutesApiPlugin implements ChutesPlugin {
           const match = text.match(/chute\s+(?:details|info|for|about)?\s*["|']?([a-zA-Z0-9_-]+)["|']?/i);
           return !!match;
         } catch (error) {
-          console.error("Validation error:", error);
+          this.logger.error("Validation error", { error });
           return false;
         }
       },
       handler: async (runtime, message) => {
         try {
+          const client = await this.useRuntime(runtime);
           // Extract chute ID or name from the message
           const match = message.content.text.match(/chute\s+(?:details|info|for|about)?\s*["|']?([a-zA-Z0-9_-]+)["|']?/i);
           
@@ -183,8 +444,8 @@ export class ChutesApiPlugin implements ChutesPlugin {
           // First try to get the chute directly by ID
           try {
             validateChuteId(chuteIdOrName);
-            ApiLogger.request("GET", `/chutes/${chuteIdOrName}`, { action: "get_chute", chuteId: chuteIdOrName });
-            const chute = await this.client.getChute(chuteIdOrName);
+            this.logger.debug("Running action", { action: "get_chute", chuteId: chuteIdOrName });
+            const chute = await client.getChute(chuteIdOrName);
             
             return {
               success: true,
@@ -204,13 +465,17 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
               chute,
             };
           } catch (error) {
+            if (!(error instanceof ChutesNotFoundError || error instanceof ValidationError)) {
+              throw error;
+            }
+            
             // If it fails by ID, try to find it by name in the list
-            const chutes = await this.client.listChutes();
+            const chutes = await client.listChutes();
             const matchedChute = chutes.find(c => c.name.toLowerCase() === chuteIdOrName.toLowerCase());
             
             if (matchedChute) {
-              ApiLogger.request("GET", `/chutes/${matchedChute.id}`, { action: "get_chute", chuteId: matchedChute.id });
-              const chute = await this.client.getChute(matchedChute.id);
+              this.logger.debug("Running action", { action: "get_chute", chuteId: matchedChute.id });
+              const chute = await client.getChute(matchedChute.id);
               
               return {
                 success: true,
@@ -237,7 +502,7 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
             }
           }
         } catch (error) {
-          return formatErrorResponse(error);
+          return formatErrorResponse(error, this.logger);
         }
       }
     },
@@ -262,12 +527,13 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           const match = text.match(/(?:cords|functions)\s+(?:for|in|of)\s+(?:chute\s+)?["|']?([a-zA-Z0-9_-]+)["|']?/i);
           return !!match;
         } catch (error) {
-          console.error("Validation error:", error);
+          this.logger.error("Validation error", { error });
           return false;
         }
       },
       handler: async (runtime, message) => {
         try {
+          const client = await this.useRuntime(runtime);
           // Extract chute ID or name from the message
           const match = message.content.text.match(/(?:cords|functions)\s+(?:for|in|of)\s+(?:chute\s+)?["|']?([a-zA-Z0-9_-]+)["|']?/i);
           
@@ -283,7 +549,7 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           
           // If it doesn't look like an ID, try to find the chute by name
           if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(chuteIdOrName)) {
-            const chutes = await this.client.listChutes();
+            const chutes = await client.listChutes();
             const matchedChute = chutes.find(c => c.name.toLowerCase() === chuteIdOrName.toLowerCase());
             
             if (matchedChute) {
@@ -298,8 +564,8 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           
           // Validate and get cords
           validateChuteId(chuteId);
-          ApiLogger.request("GET", `/chutes/${chuteId}/cords`, { action: "list_cords", chuteId });
-          const cords = await this.client.listCords(chuteId);
+          this.logger.debug("Running action", { action: "list_cords", chuteId });
+          const cords = await client.listCords(chuteId);
           
           if (cords.length === 0) {
             return {
@@ -328,7 +594,7 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
             cords,
           };
         } catch (error) {
-          return formatErrorResponse(error);
+          return formatErrorResponse(error, this.logger);
         }
       }
     },
@@ -352,12 +618,14 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           // Check for patterns like "execute X on Y with Z" or "call X on Y with Z"
           return /(?:execute|run|call|invoke)\s+["']?([a-zA-Z0-9_-]+)["']?\s+(?:on|in|for)\s+(?:chute\s+)?["']?([a-zA-Z0-9_-]+)["']?\s+(?:with|using)\s+({.+})/i.test(text);
         } catch (error) {
-          console.error("Validation error:", error);
+          this.logger.error("Validation error", { error });
           return false;
         }
       },
-      handler: async (runtime, message) => {
+      handler: async (runtime, message, state, options, callback) => {
+        const execution = this.trackCordExecution(message.roomId);
         try {
+          const client = await this.useRuntime(runtime);
           // Extract cord name, chute ID/name and params from the message
           const match = message.content.text.match(/(?:execute|run|call|invoke)\s+["']?([a-zA-Z0-9_-]+)["']?\s+(?:on|in|for)\s+(?:chute\s+)?["']?([a-zA-Z0-9_-]+)["']?\s+(?:with|using)\s+({.+})/i);
           
@@ -390,7 +658,7 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           // Resolve chute ID from name if needed
           let chuteId = chuteIdOrName;
           if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(chuteIdOrName)) {
-            const chutes = await this.client.listChutes();
+            const chutes = await client.listChutes({ signal: execution.signal });
             const matchedChute = chutes.find(c => c.name.toLowerCase() === chuteIdOrName.toLowerCase());
             
             if (matchedChute) {
@@ -404,14 +672,50 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           }
           
           // Execute the cord with proper logging and timeout handling
-          ApiLogger.request("POST", `/chutes/${chuteId}/cords/${cordName}`, { 
+          this.logger.debug("Running action", { 
             action: "execute_cord", 
             chuteId, 
             cordName, 
             hasParams: true 
           });
           
-          const result = await this.client.executeCord(chuteId, cordName, params);
+          // Cords that support streaming are asked to stream via a `stream` param;
+          // forward the output a few paragraphs at a time as it arrives
+          if ((params as { stream?: unknown }).stream === true) {
+            let streamedText = "";
+            let unsent = "";
+            let chunkCount = 0;
+            let lastPostedAt = Date.now();
+            
+            const chunks = client.executeCordStream(chuteId, cordName, params, { signal: execution.signal });
+            for await (const chunk of chunks) {
+              chunkCount++;
+              if (!chunk.text) continue;
+              
+              streamedText += chunk.text;
+              unsent += chunk.text;
+              const [ready, rest] = splitStreamedMessage(unsent, Date.now() - lastPostedAt);
+              if (ready && callback) {
+                await callback({ text: ready, action: "execute_cord" });
+                unsent = rest;
+                lastPostedAt = Date.now();
+              }
+            }
+            if (unsent.trim() && callback) {
+              await callback({ text: unsent.trim(), action: "execute_cord" });
+            }
+            
+            // Output already posted through the callback isn't repeated in the response
+            return {
+              success: true,
+              response: callback
+                ? `Finished streaming ${cordName}${streamedText ? "." : " (no output)."}`
+                : `Result from ${cordName}:\n\n${streamedText || "(no output)"}`,
+              result: { text: streamedText, chunks: chunkCount },
+            };
+          }
+          
+          const result = await client.executeCord(chuteId, cordName, params, { signal: execution.signal });
           
           // Format the response depending on the type
           let response: string;
@@ -436,7 +740,9 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
             result,
           };
         } catch (error) {
-          return formatErrorResponse(error);
+          return formatErrorResponse(error, this.logger);
+        } finally {
+          execution.done();
         }
       }
     },
@@ -458,12 +764,13 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           
           return /deploy\s+(?:a\s+)?(?:new\s+)?(?:chute\s+)?["']?([a-zA-Z0-9_-]+)["']?\s+(?:from|with|using)\s+(?:image\s+)?["']?([a-zA-Z0-9_-]+)["']?/i.test(text);
         } catch (error) {
-          console.error("Validation error:", error);
+          this.logger.error("Validation error", { error });
           return false;
         }
       },
-      handler: async (runtime, message, state) => {
+      handler: async (runtime, message, state, options, callback) => {
         try {
+          const client = await this.useRuntime(runtime);
           // This would require more complex parsing to extract all parameters
           // For simplicity, we'll focus on the core parameters
           const match = message.content.text.match(/deploy\s+(?:a\s+)?(?:new\s+)?(?:chute\s+)?["']?([a-zA-Z0-9_-]+)["']?\s+(?:from|with|using)\s+(?:image\s+)?["']?([a-zA-Z0-9_-]+)["']?/i);
@@ -490,7 +797,7 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           // Resolve image ID from name if needed
           let imageId = imageIdOrName;
           if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(imageIdOrName)) {
-            const images = await this.client.listImages();
+            const images = await client.listImages();
             const matchedImage = images.find(img => img.name.toLowerCase() === imageIdOrName.toLowerCase());
             
             if (matchedImage) {
@@ -515,25 +822,62 @@ ${chute.readme ? `\n### Description\n\n${chute.readme}\n` : ''}
           };
           
           // Deploy the chute with proper logging
-          ApiLogger.request("POST", "/chutes", { 
+          this.logger.debug("Running action", { 
             action: "deploy_chute", 
             params: deployParams 
           });
           
-          const chute = await this.client.deployChute(deployParams);
+          const chute = await client.deployChute(deployParams);
+          
+          // Tell this room when the deployment comes up or fails
+          try {
+            await this.statusService.watch(runtime, chute, { roomId: message.roomId || "default", callback });
+          } catch (error) {
+            this.logger.warn("Could not monitor the new chute", { error, chuteId: chute.id });
+          }
           
           return {
             success: true,
-            response: `Successfully deployed chute "${chuteName}" with ID \`${chute.id}\`.\nStatus: ${chute.status}\nIt may take a few minutes for the chute to become ready.`,
+            response: `Successfully deployed chute "${chuteName}" with ID \`${chute.id}\`.\nStatus: ${chute.status}\nIt may take a few minutes for the chute to become ready; I'll post here when its status changes.`,
             chute,
           };
         } catch (error) {
-          return formatErrorResponse(error);
+          return formatErrorResponse(error, this.logger);
         }
       }
     },
   ];
 }
 
-// Default export
-export default ChutesApiPlugin;
+/**
+ * A plugin that builds a client per agent, so it has no single client
+ */
+export type ChutesRuntimePlugin = Omit<ChutesApiPlugin<ChutesClient>, "client">;
+
+/**
+ * Create the Chutes plugin for an Eliza agent
+ * Nothing is read at creation: each agent's client is built from its
+ * runtime settings (CHUTES_API_KEY, CHUTES_PROFILE, ...) when one of its
+ * actions first runs, so characters can use different keys.
+ *
+ * @param config Settings shared by every agent; runtime settings fill in the rest
+ */
+export function createChutesPlugin(
+  config: Omit<ChutesApiPluginConfig, "client" | "settingsFromRuntime"> = {}
+): ChutesRuntimePlugin {
+  return new ChutesApiPlugin({ ...config, settingsFromRuntime: true });
+}
+
+export * from "./errors.js";
+export * from "./doctor.js";
+export * from "./config.js";
+export * from "./provider.js";
+export * from "./monitor.js";
+export {
+  CHUTES_MODEL_PROVIDER,
+  configureChutesModelProvider,
+  createChutesFetch,
+} from "./model-provider.js";
+
+// Default export, for loading the plugin by path from a character's plugins array
+export default createChutesPlugin();
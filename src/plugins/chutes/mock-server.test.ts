@@ -0,0 +1,117 @@
+import { ChutesClient } from "./client.js";
+import { ChutesAuthError, ChutesError, ChutesRateLimitError } from "./errors.js";
+import { MockChutesServer } from "./testing.js";
+import { ChutesChute } from "./types.js";
+
+const API_KEY = "cpk_test.mock.key";
+
+describe("ChutesClient against MockChutesServer", () => {
+  const server = new MockChutesServer({ apiKeys: [API_KEY] });
+  let client: ChutesClient;
+
+  beforeAll(async () => {
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = new ChutesClient({
+      apiKey: API_KEY,
+      baseUrl: server.url,
+      fallbackEndpoints: [],
+      cache: false,
+      retries: 2,
+    });
+  });
+
+  it("lists chutes and executes a cord", async () => {
+    const [chute] = await client.listChutes();
+    expect(chute.name).toBe("mock-echo");
+
+    const result = await client.executeCord(chute.id, "echo", { hello: "world" });
+    expect(result).toEqual(expect.objectContaining({ hello: "world" }));
+  });
+
+  it("waits out a 429 with Retry-After and retries", async () => {
+    server.addFault({ path: "/chutes", status: 429, retryAfterSeconds: 1, times: 1 });
+
+    const started = Date.now();
+    const chutes = await client.listChutes();
+
+    expect(chutes).toHaveLength(1);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    expect(server.requests.filter(request => request.path === "/chutes")).toHaveLength(2);
+  });
+
+  it("fails with the requested wait when Retry-After is too long to wait out", async () => {
+    server.addFault({ path: "/chutes", status: 429, retryAfterSeconds: 120 });
+
+    const error = await client.listChutes().catch(error => error);
+
+    expect(error).toBeInstanceOf(ChutesRateLimitError);
+    expect(error.retryAfterMs).toBe(120000);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it("reports malformed JSON instead of returning it", async () => {
+    server.addFault({ path: "/chutes", malformedJson: true });
+    const noRetries = new ChutesClient({ apiKey: API_KEY, baseUrl: server.url, fallbackEndpoints: [], cache: false, retries: 0 });
+
+    await expect(noRetries.listChutes()).rejects.toBeInstanceOf(ChutesError);
+  });
+
+  it("rejects an unknown API key", async () => {
+    const stranger = new ChutesClient({ apiKey: "cpk_test.other.key", baseUrl: server.url, fallbackEndpoints: [], cache: false });
+
+    await expect(stranger.listChutes()).rejects.toBeInstanceOf(ChutesAuthError);
+  });
+});
+
+describe("MockChutesServer seeded state", () => {
+  const seeded: ChutesChute = {
+    id: "00000000-0000-4000-8000-00000000000a",
+    username: "mock-user",
+    name: "seeded",
+    image_id: "00000000-0000-4000-8000-000000000001",
+    public: false,
+    created_at: new Date(0).toISOString(),
+    status: "running",
+    readme: "Seeded chute",
+    node_selector: { gpu_count: 1, min_vram_gb_per_gpu: 16 },
+  };
+  const state = { chutes: [seeded] };
+  const server = new MockChutesServer({ apiKeys: [API_KEY], state });
+  let client: ChutesClient;
+
+  beforeAll(async () => {
+    await server.start();
+    client = new ChutesClient({ apiKey: API_KEY, baseUrl: server.url, fallbackEndpoints: [], cache: false });
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it("restores the seeded state on reset without changing the caller's copy", async () => {
+    const snapshot = structuredClone(state);
+
+    await client.updateChute(seeded.id, { readme: "Changed" });
+    await client.deployChute({
+      username: "mock-user",
+      name: "deployed",
+      image_id: seeded.image_id,
+      node_selector: { gpu_count: 1, min_vram_gb_per_gpu: 16 },
+    });
+    await client.deleteChute(seeded.id);
+    expect((await client.listChutes()).map(chute => chute.name)).toEqual(["deployed"]);
+
+    server.reset();
+
+    expect(state).toEqual(snapshot);
+    expect(await client.listChutes()).toEqual([expect.objectContaining({ name: "seeded", readme: "Seeded chute" })]);
+  });
+});
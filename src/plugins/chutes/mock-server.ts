@@ -0,0 +1,517 @@
+/**
+ * Mock Chutes API server for offline development and tests
+ *
+ * Serves the endpoints the client uses from an in-memory state model, so
+ * the plugin can run without an API key or network access. Faults such as
+ * latency, error statuses and malformed JSON can be injected per route.
+ */
+
+import * as http from "http";
+import { randomUUID } from "crypto";
+import { AddressInfo } from "net";
+
+import {
+  ChutesChute,
+  ChutesCord,
+  ChutesImage,
+  ChutesInstance,
+  ChutesUserInfo,
+  DeveloperDepositInfo,
+} from "./types.js";
+
+/**
+ * Everything the mock API knows about; tests can read and change it directly
+ */
+export interface MockChutesState {
+  user: ChutesUserInfo;
+  deposit: DeveloperDepositInfo;
+  images: ChutesImage[];
+  chutes: ChutesChute[];
+  cords: Record<string, ChutesCord[]>;  // By chute ID
+  instances: Record<string, ChutesInstance[]>;  // By chute ID
+}
+
+/**
+ * A fault to inject into matching requests
+ */
+export interface MockFault {
+  path?: string | RegExp;  // Path prefix or pattern; every request if omitted
+  method?: string;
+  status?: number;  // e.g. 401, 403, 404, 429 or 503
+  latencyMs?: number;
+  malformedJson?: boolean;  // Answer 200 with a body that is not valid JSON
+  retryAfterSeconds?: number;  // Sent as Retry-After with the status
+  times?: number;  // How many requests are affected; every matching request if omitted
+  probability?: number;  // Chance between 0 and 1 that a matching request is affected
+}
+
+/**
+ * Options for the mock server
+ */
+export interface MockChutesServerOptions {
+  port?: number;  // 0 picks a free port
+  host?: string;
+  apiKeys?: string[];  // Accepted keys; any bearer token is accepted if omitted
+  latencyMs?: number;  // Added to every response
+  transitionDelayMs?: number;  // Time until new images are built and new chutes are running
+  faults?: MockFault[];
+  state?: Partial<MockChutesState>;
+}
+
+/**
+ * A request received by the mock server
+ */
+export interface MockRequestRecord {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body?: unknown;
+  fault?: MockFault;
+}
+
+const MOCK_USERNAME = "mock-user";
+const MOCK_IMAGE_ID = "00000000-0000-4000-8000-000000000001";
+const MOCK_CHUTE_ID = "00000000-0000-4000-8000-000000000002";
+
+/**
+ * Sample account with one image and one running chute
+ */
+function createDefaultState(): MockChutesState {
+  const createdAt = new Date(0).toISOString();
+
+  return {
+    user: {
+      username: MOCK_USERNAME,
+      is_developer: true,
+      wallet_address: "5MockWallet",
+    },
+    deposit: { usd: 250, tao_estimate: 0.5 },
+    images: [{
+      id: MOCK_IMAGE_ID,
+      username: MOCK_USERNAME,
+      name: "mock-image",
+      tag: "0.1.0",
+      public: false,
+      created_at: createdAt,
+      status: "built",
+    }],
+    chutes: [{
+      id: MOCK_CHUTE_ID,
+      username: MOCK_USERNAME,
+      name: "mock-echo",
+      readme: "Echoes its input",
+      image_id: MOCK_IMAGE_ID,
+      public: false,
+      created_at: createdAt,
+      status: "running",
+      node_selector: { gpu_count: 1, min_vram_gb_per_gpu: 16 },
+    }],
+    cords: {
+      [MOCK_CHUTE_ID]: [
+        {
+          name: "echo",
+          description: "Returns the parameters it was called with",
+          input_schema: { type: "object" },
+        },
+        {
+          name: "generate",
+          description: "Repeats the prompt word by word; supports streaming",
+          input_schema: {
+            type: "object",
+            properties: {
+              prompt: { type: "string" },
+              stream: { type: "boolean", default: false },
+            },
+            required: ["prompt"],
+          },
+        },
+      ],
+    },
+    instances: {
+      [MOCK_CHUTE_ID]: [{
+        instance_id: "00000000-0000-4000-8000-000000000003",
+        chute_id: MOCK_CHUTE_ID,
+        region: "mock",
+        active: true,
+        verified: true,
+        created_at: createdAt,
+      }],
+    },
+  };
+}
+
+/**
+ * Error answered by a route handler
+ */
+class MockHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * In-memory stand-in for the Chutes API
+ */
+export class MockChutesServer {
+  state: MockChutesState;
+  readonly requests: MockRequestRecord[] = [];
+  private server?: http.Server;
+  private faults: Array<MockFault & { hits: number }> = [];
+  private readyAt = new Map<string, number>();
+  private requestCount = 0;
+
+  constructor(private options: MockChutesServerOptions = {}) {
+    this.state = this.createState();
+    for (const fault of options.faults || []) this.addFault(fault);
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) throw new Error("Mock Chutes server is not running");
+    const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns The base URL, to use as the client's baseUrl
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+        const status = error instanceof MockHttpError ? error.status : 500;
+        this.sendJson(res, status, { detail: String(error?.message || error) });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? 0, this.options.host ?? "127.0.0.1", () => resolve());
+    });
+    return this.url;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Inject a fault into matching requests
+   */
+  addFault(fault: MockFault): void {
+    this.faults.push({ ...fault, hits: 0 });
+  }
+
+  /**
+   * Remove every injected fault
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Restore the sample state and forget recorded requests and faults
+   */
+  reset(): void {
+    this.state = this.createState();
+    this.requests.length = 0;
+    this.readyAt.clear();
+    this.clearFaults();
+  }
+
+  /**
+   * Build the starting state from a copy of the seeded state, which requests must not change
+   */
+  private createState(): MockChutesState {
+    return { ...createDefaultState(), ...structuredClone(this.options.state) };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = (req.method || "GET").toUpperCase();
+    const path = new URL(req.url || "/", "http://mock").pathname.replace(/\/+$/, "") || "/";
+    const body = await readBody(req);
+    const fault = this.takeFault(method, path);
+
+    this.requests.push({ method, path, headers: req.headers, body, fault });
+    res.setHeader("X-Request-ID", `mock-${++this.requestCount}`);
+
+    const latency = (this.options.latencyMs ?? 0) + (fault?.latencyMs ?? 0);
+    if (latency > 0) await new Promise(resolve => setTimeout(resolve, latency));
+
+    // Health check used by debugApi, answered without authentication
+    if (path === "/") {
+      this.sendJson(res, 200, { status: "ok" });
+      return;
+    }
+
+    if (fault?.status) {
+      if (fault.retryAfterSeconds !== undefined) {
+        res.setHeader("Retry-After", String(fault.retryAfterSeconds));
+      }
+      this.sendJson(res, fault.status, { detail: `Injected fault: ${http.STATUS_CODES[fault.status] || fault.status}` });
+      return;
+    }
+    if (fault?.malformedJson) {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end('{"detail": "truncated');
+      return;
+    }
+
+    const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "")?.[1];
+    if (!token || (this.options.apiKeys && !this.options.apiKeys.includes(token))) {
+      this.sendJson(res, 401, { detail: "Invalid or missing API key" });
+      return;
+    }
+
+    try {
+      await this.route(method, path, body, res);
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error;
+      this.sendJson(res, error.status, { detail: error.message });
+    }
+  }
+
+  private async route(method: string, path: string, body: any, res: http.ServerResponse): Promise<void> {
+    const segments = path.split("/").filter(Boolean);
+    // The LLM API is served under /v1, next to the management API
+    if (segments[0] === "v1") segments.shift();
+    const [resource, id, sub, subId] = segments;
+
+    if (resource === "users" && id === "me" && method === "GET") {
+      return this.sendJson(res, 200, this.state.user);
+    }
+    if (resource === "developer_deposit" && method === "GET") {
+      return this.sendJson(res, 200, this.state.deposit);
+    }
+    if (resource === "chat" && id === "completions" && method === "POST") {
+      return this.chatCompletion(body, res);
+    }
+
+    if (resource === "images") {
+      if (!id && method === "GET") return this.sendJson(res, 200, this.state.images.map(image => this.refresh(image)));
+      if (!id && method === "POST") return this.sendJson(res, 202, this.createImage(body));
+
+      const image = this.state.images.find(candidate => candidate.id === id);
+      if (!image) throw new MockHttpError(404, "No matching image found!");
+
+      if (!sub && method === "GET") return this.sendJson(res, 200, this.refresh(image));
+      if (!sub && method === "DELETE") {
+        this.state.images = this.state.images.filter(candidate => candidate !== image);
+        return this.sendJson(res, 200, { image_id: id, deleted: true });
+      }
+      if (sub === "logs" && method === "GET") {
+        return this.sendEvents(res, [`Building ${image.name}:${image.tag}`, "Build complete"].map(line => ({ log: line })));
+      }
+    }
+
+    if (resource === "chutes") {
+      if (!id && method === "GET") return this.sendJson(res, 200, this.state.chutes.map(chute => this.refresh(chute)));
+      if (!id && method === "POST") return this.sendJson(res, 200, this.deployChute(body));
+
+      const chute = this.state.chutes.find(candidate => candidate.id === id || candidate.name === id);
+      if (!chute) throw new MockHttpError(404, "No matching chute found!");
+
+      if (!sub && method === "GET") return this.sendJson(res, 200, this.refresh(chute));
+      if (!sub && (method === "PUT" || method === "PATCH")) {
+        Object.assign(chute, pick(body, ["readme", "public", "node_selector"]));
+        return this.sendJson(res, 200, this.refresh(chute));
+      }
+      if (!sub && method === "DELETE") {
+        this.state.chutes = this.state.chutes.filter(candidate => candidate !== chute);
+        delete this.state.cords[chute.id];
+        delete this.state.instances[chute.id];
+        return this.sendJson(res, 200, { chute_id: chute.id, deleted: true });
+      }
+      if (sub === "instances" && method === "GET") {
+        return this.sendJson(res, 200, this.state.instances[chute.id] || []);
+      }
+      if (sub === "cords" && !subId && method === "GET") {
+        return this.sendJson(res, 200, this.state.cords[chute.id] || []);
+      }
+      if (sub === "cords" && subId && method === "POST") {
+        return this.executeCord(chute, subId, body, res);
+      }
+    }
+
+    throw new MockHttpError(404, `No route for ${method} ${path}`);
+  }
+
+  /**
+   * Apply pending status transitions of a new image or chute
+   */
+  private refresh<T extends { id: string; status?: string }>(item: T): T {
+    const readyAt = this.readyAt.get(item.id);
+    if (readyAt !== undefined && Date.now() >= readyAt) {
+      item.status = item.status === "building" ? "built" : "running";
+      this.readyAt.delete(item.id);
+    }
+    return item;
+  }
+
+  private scheduleTransition(id: string): void {
+    this.readyAt.set(id, Date.now() + (this.options.transitionDelayMs ?? 0));
+  }
+
+  private createImage(body: any): { image_id: string } {
+    if (!this.state.user.is_developer) throw new MockHttpError(403, "Developer deposit required");
+
+    const image: ChutesImage = {
+      id: randomUUID(),
+      username: this.state.user.username || MOCK_USERNAME,
+      name: String(body?.name || "image"),
+      tag: String(body?.tag || "latest"),
+      readme: body?.readme,
+      public: body?.public === true || body?.public === "true",
+      created_at: new Date().toISOString(),
+      status: "building",
+    };
+    this.state.images.push(image);
+    this.scheduleTransition(image.id);
+    return { image_id: image.id };
+  }
+
+  private deployChute(body: any): ChutesChute {
+    if (!this.state.user.is_developer) throw new MockHttpError(403, "Developer deposit required");
+    if (!body?.name || !body?.image_id || !body?.node_selector) {
+      throw new MockHttpError(422, "name, image_id and node_selector are required");
+    }
+    if (!this.state.images.some(image => image.id === body.image_id)) {
+      throw new MockHttpError(404, "No matching image found!");
+    }
+
+    const chute: ChutesChute = {
+      id: randomUUID(),
+      username: this.state.user.username || MOCK_USERNAME,
+      name: body.name,
+      readme: body.readme,
+      image_id: body.image_id,
+      public: body.public === true,
+      created_at: new Date().toISOString(),
+      status: "deploying",
+      node_selector: body.node_selector,
+    };
+    this.state.chutes.push(chute);
+    this.state.cords[chute.id] = [{ name: "echo", description: "Returns the parameters it was called with" }];
+    this.scheduleTransition(chute.id);
+    return chute;
+  }
+
+  private executeCord(chute: ChutesChute, cordName: string, params: any, res: http.ServerResponse): void {
+    const cord = (this.state.cords[chute.id] || []).find(candidate => candidate.name === cordName);
+    if (!cord) throw new MockHttpError(404, "No matching cord found!");
+    if (this.refresh(chute).status !== "running") throw new MockHttpError(503, "Chute is not running");
+
+    if (cordName !== "generate") {
+      return this.sendJson(res, 200, params ?? {});
+    }
+
+    const words = String(params?.prompt ?? "").split(/\s+/).filter(Boolean);
+    if (params?.stream === true) {
+      return this.sendEvents(res, words.map((word, index) => ({ text: index > 0 ? ` ${word}` : word })));
+    }
+    this.sendJson(res, 200, { text: words.join(" ") });
+  }
+
+  private chatCompletion(body: any, res: http.ServerResponse): void {
+    const messages: Array<{ role: string; content: string }> = Array.isArray(body?.messages) ? body.messages : [];
+    const prompt = [...messages].reverse().find(message => message.role === "user")?.content ?? "";
+    const content = `Mock reply to: ${prompt}`;
+    const base = { id: `chatcmpl-${randomUUID()}`, created: Math.floor(Date.now() / 1000), model: body?.model || "mock" };
+
+    if (body?.stream === true) {
+      return this.sendEvents(res, content.split(/(?<= )/).map(part => ({
+        ...base,
+        object: "chat.completion.chunk",
+        choices: [{ index: 0, delta: { content: part }, finish_reason: null }],
+      })));
+    }
+
+    this.sendJson(res, 200, {
+      ...base,
+      object: "chat.completion",
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: prompt.length, completion_tokens: content.length, total_tokens: prompt.length + content.length },
+    });
+  }
+
+  /**
+   * Find the fault for a request, counting it against the fault's limit
+   */
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const fault = this.faults.find(candidate => {
+      if (candidate.times !== undefined && candidate.hits >= candidate.times) return false;
+      if (candidate.method && candidate.method.toUpperCase() !== method) return false;
+      if (candidate.path instanceof RegExp && !candidate.path.test(path)) return false;
+      if (typeof candidate.path === "string" && !path.startsWith(candidate.path)) return false;
+      return true;
+    });
+    if (!fault || (fault.probability !== undefined && Math.random() >= fault.probability)) return undefined;
+
+    fault.hits++;
+    return fault;
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendEvents(res: http.ServerResponse, events: unknown[]): void {
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+    for (const event of events) res.write(`data: ${JSON.stringify(event)}\n\n`);
+    res.end("data: [DONE]\n\n");
+  }
+}
+
+/**
+ * Read and parse a request body: JSON, form fields from a multipart upload, or nothing
+ */
+async function readBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return undefined;
+
+  const raw = Buffer.concat(chunks);
+  const contentType = req.headers["content-type"] || "";
+
+  if (contentType.includes("multipart/form-data")) {
+    // Only the text fields are needed; file parts are skipped
+    const fields: Record<string, string> = {};
+    const pattern = /name="([^"]+)"\r\n\r\n([^\r]*)\r\n/g;
+    for (const [, name, value] of raw.toString("latin1").matchAll(pattern)) {
+      fields[name] = value;
+    }
+    return fields;
+  }
+
+  try {
+    return JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new MockHttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function pick(source: any, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(keys.filter(key => source?.[key] !== undefined).map(key => [key, source[key]]));
+}
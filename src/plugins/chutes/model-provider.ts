@@ -0,0 +1,183 @@
+/**
+ * Chutes model provider for Eliza text generation
+ *
+ * Eliza only supports a fixed set of model providers, so a character that sets
+ * `modelProvider: "chutes"` runs on Eliza's OpenAI-compatible provider with a
+ * fetch override that sends every chat completion through ChutesClient.
+ */
+
+import { ChutesClient, ChutesClientConfig } from "./client.js";
+import { ChutesChatCompletionRequest, ChutesChatMessage } from "./types.js";
+
+/**
+ * Model provider name characters use to run on Chutes
+ */
+export const CHUTES_MODEL_PROVIDER = "chutes";
+
+/**
+ * Chute used for text generation when the character doesn't name one
+ */
+export const DEFAULT_CHUTES_MODEL = "deepseek-ai/DeepSeek-V3";
+
+/**
+ * The parts of an Eliza character the model provider reads and rewrites
+ */
+export interface ChutesModelCharacter {
+  modelProvider: string;
+  modelEndpointOverride?: string;
+  settings?: {
+    model?: string;
+    secrets?: { [key: string]: string };
+  };
+}
+
+/**
+ * Runtime options for a character running on Chutes
+ */
+export interface ChutesModelRuntimeOptions<T extends ChutesModelCharacter> {
+  character: T;
+  token: string;
+  fetch: typeof fetch;
+}
+
+/**
+ * Get the URL of a fetch input
+ */
+function getRequestUrl(input: string | URL | Request): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+/**
+ * Convert OpenAI message content, which may be a list of parts, to plain text
+ */
+function toMessageContent(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (part && typeof part === "object" && typeof part.text === "string" ? part.text : ""))
+      .join("");
+  }
+  return content == null ? "" : String(content);
+}
+
+/**
+ * Build an OpenAI-style JSON error response
+ */
+function errorResponse(error: unknown, status: number = 502): Response {
+  const message = error instanceof Error ? error.message : String(error);
+  return new Response(JSON.stringify({ error: { message, type: "chutes_error" } }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Create a fetch function that answers OpenAI chat completion requests using Chutes
+ * The requested model is replaced with the given chute name; any other request
+ * is passed through to the global fetch.
+ *
+ * @param client Client used for the chat completions
+ * @param model Name of the chute serving the model
+ */
+export function createChutesFetch(client: ChutesClient, model: string): typeof fetch {
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = getRequestUrl(input);
+    if (!url.endsWith("/chat/completions") || init?.method?.toUpperCase() !== "POST") {
+      return fetch(input, init);
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(String(init.body));
+    } catch (error) {
+      return errorResponse(new Error("Invalid chat completion request body"), 400);
+    }
+
+    const request: ChutesChatCompletionRequest = {
+      model,
+      messages: (body.messages || []).map((message: any): ChutesChatMessage => ({
+        role: message.role,
+        content: toMessageContent(message.content),
+      })),
+      temperature: body.temperature,
+      max_tokens: body.max_tokens,
+      top_p: body.top_p,
+      frequency_penalty: body.frequency_penalty,
+      presence_penalty: body.presence_penalty,
+      stop: body.stop,
+    };
+
+    if (!body.stream) {
+      try {
+        const completion = await client.createChatCompletion(request);
+        return new Response(JSON.stringify(completion), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+
+    // Re-encode the chunks as server-sent events for the OpenAI SDK
+    const encoder = new TextEncoder();
+    const chunks = client.streamChatCompletion(request, { signal: init.signal ?? undefined });
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of chunks) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          }
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { "Content-Type": "text/event-stream" },
+    });
+  };
+}
+
+/**
+ * Prepare a character that uses Chutes as its model provider for the agent runtime
+ * The model is taken from `settings.model`, then the `CHUTES_MODEL` secret.
+ *
+ * @param character Character with `modelProvider: "chutes"`
+ * @param config Client configuration with the Chutes API key
+ * @returns The character rewritten for the OpenAI-compatible provider, the token and the fetch override
+ */
+export function configureChutesModelProvider<T extends ChutesModelCharacter>(
+  character: T,
+  config: ChutesClientConfig
+): ChutesModelRuntimeOptions<T> {
+  if (character.modelProvider !== CHUTES_MODEL_PROVIDER) {
+    throw new Error(`Character does not use the "${CHUTES_MODEL_PROVIDER}" model provider`);
+  }
+
+  const apiKey = character.settings?.secrets?.CHUTES_API_KEY || config.apiKey;
+  if (!apiKey) {
+    throw new Error("CHUTES_API_KEY is required to use Chutes as the model provider");
+  }
+
+  const client = new ChutesClient({ ...config, apiKey });
+  const model = character.settings?.model
+    || character.settings?.secrets?.CHUTES_MODEL
+    || DEFAULT_CHUTES_MODEL;
+
+  return {
+    character: {
+      ...character,
+      modelProvider: "openai",
+      modelEndpointOverride: config.llmBaseUrl || "https://llm.chutes.ai/v1",
+    },
+    token: apiKey,
+    fetch: createChutesFetch(client, model),
+  };
+}
@@ -0,0 +1,160 @@
+import { ChuteStatusEvent, ChuteStatusMonitor } from "./monitor.js";
+import { ChutesError, ChutesRateLimitError } from "./errors.js";
+import { FakeChutesClient } from "./testing.js";
+import { ChutesChute } from "./types.js";
+
+describe("ChuteStatusMonitor", () => {
+  let client: FakeChutesClient;
+  let llm: ChutesChute;
+  let monitor: ChuteStatusMonitor;
+  let events: ChuteStatusEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    client = new FakeChutesClient();
+    llm = client.addChute({ name: "llm" });
+    client.addChute({ name: "embedder" });
+    monitor = new ChuteStatusMonitor(client, { activeIntervalMs: 1000, idleIntervalMs: 10000, maxBackoffMs: 30000 });
+    events = [];
+    monitor.on(event => {
+      events.push(event);
+    });
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.useRealTimers();
+  });
+
+  function listCalls(): number {
+    return client.getCalls("listChutes").length;
+  }
+
+  describe("events", () => {
+    it("records statuses on the first poll without reporting them", async () => {
+      expect(await monitor.poll()).toEqual([]);
+      expect(monitor.getStatus(llm.id)).toBe("running");
+    });
+
+    it.each([
+      ["deploying", "running", "ready"],
+      ["deploying", "ready", "ready"],
+      ["running", "failed", "failed"],
+      ["deploying", "ERROR", "failed"],
+      ["running", "scaling", "changed"],
+    ])("reports %s -> %s as %s", async (from, to, type) => {
+      client.setChuteStatus("llm", from);
+      await monitor.poll();
+      client.setChuteStatus("llm", to);
+
+      await monitor.poll();
+
+      expect(events).toEqual([expect.objectContaining({ type, chuteName: "llm", previousStatus: from, status: to })]);
+      expect(events[0].chute?.status).toBe(to);
+    });
+
+    it("reports a chute that is gone as deleted", async () => {
+      await monitor.poll();
+      await client.deleteChute(llm.id);
+
+      await monitor.poll();
+
+      expect(events).toEqual([{ type: "deleted", chuteId: llm.id, chuteName: "llm", previousStatus: "running", status: "deleted" }]);
+      expect(client.getCalls("getChute")).toHaveLength(1);
+      expect(monitor.getStatus(llm.id)).toBeUndefined();
+    });
+
+    it("reports changes of a tracked chute from the first poll", async () => {
+      // Like a deploy response, the tracked chute is a copy of the API's state
+      monitor.track({ ...client.addChute({ name: "new", status: "deploying" }) });
+      client.setChuteStatus("new", "running");
+
+      await monitor.poll();
+
+      expect(events).toEqual([expect.objectContaining({ type: "ready", chuteName: "new" })]);
+    });
+
+    it("keeps calling listeners after one fails", async () => {
+      monitor.on(() => {
+        throw new Error("listener failed");
+      });
+      await monitor.poll();
+      client.setChuteStatus("llm", "failed");
+
+      await monitor.poll();
+
+      expect(events).toHaveLength(1);
+    });
+  });
+
+  describe("polling", () => {
+    it("polls slowly once every chute has settled", async () => {
+      monitor.start();
+      await jest.advanceTimersByTimeAsync(0);
+      expect(listCalls()).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(9999);
+      expect(listCalls()).toBe(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(listCalls()).toBe(2);
+    });
+
+    it("polls quickly while a chute is changing, starting as soon as it is tracked", async () => {
+      monitor.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      monitor.track({ ...client.addChute({ name: "new", status: "deploying" }) });
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(listCalls()).toBe(2);
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(listCalls()).toBe(3);
+
+      client.setChuteStatus("new", "running");
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(events).toEqual([expect.objectContaining({ type: "ready", chuteName: "new" })]);
+      await jest.advanceTimersByTimeAsync(9999);
+      expect(listCalls()).toBe(4);
+    });
+
+    it("backs off exponentially while the API fails, up to the maximum", async () => {
+      client.failOn("listChutes", new ChutesError("Service unavailable", { status: 503 }), 3);
+      monitor.start();
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(monitor.getNextDelay()).toBe(20000);
+      await jest.advanceTimersByTimeAsync(19999);
+      expect(listCalls()).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(listCalls()).toBe(2);
+      expect(monitor.getNextDelay()).toBe(30000);
+
+      await jest.advanceTimersByTimeAsync(30000);
+      await jest.advanceTimersByTimeAsync(30000);
+      expect(listCalls()).toBe(4);
+      expect(monitor.getNextDelay()).toBe(10000);
+    });
+
+    it("waits at least as long as Retry-After asks", async () => {
+      client.failOn("listChutes", new ChutesRateLimitError("Rate limited", { status: 429 }, 90000));
+      monitor.start();
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(monitor.getNextDelay()).toBe(90000);
+      await jest.advanceTimersByTimeAsync(89999);
+      expect(listCalls()).toBe(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(listCalls()).toBe(2);
+    });
+
+    it("stops polling when stopped", async () => {
+      monitor.start();
+      await jest.advanceTimersByTimeAsync(0);
+      monitor.stop();
+
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(listCalls()).toBe(1);
+    });
+  });
+});
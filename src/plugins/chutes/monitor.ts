@@ -0,0 +1,433 @@
+/**
+ * Chute status monitor
+ *
+ * Polls the account's chutes in the background and reports status changes,
+ * so a deployment that fails or comes up doesn't go unnoticed until someone
+ * asks again. Polling is fast while a chute is changing, slow once every
+ * chute has settled, and backs off while the API is failing.
+ */
+
+import { randomUUID } from "crypto";
+
+import { ChutesApiClient, ChutesChute } from "./types.js";
+import { ChutesClient } from "./client.js";
+import { ChutesNotFoundError, ChutesRateLimitError } from "./errors.js";
+import { Logger, getDefaultLogger } from "../../common/logger.js";
+
+// Define types to avoid @ai16z/eliza dependency in development
+interface IAgentRuntime {
+  [key: string]: any;
+}
+
+/**
+ * Kind of status change: the chute came up, failed, was deleted, or anything else
+ */
+export type ChuteStatusEventType = "ready" | "failed" | "deleted" | "changed";
+
+/**
+ * A change in a chute's status
+ */
+export interface ChuteStatusEvent {
+  type: ChuteStatusEventType;
+  chuteId: string;
+  chuteName: string;
+  previousStatus: string;
+  status: string;  // "deleted" once the chute is gone
+  chute?: ChutesChute;  // Latest state, unless the chute was deleted
+}
+
+export type ChuteStatusListener = (event: ChuteStatusEvent) => void | Promise<void>;
+
+/**
+ * Options for the status monitor
+ */
+export interface ChuteStatusMonitorOptions {
+  activeIntervalMs?: number;  // Poll interval while a chute is changing (default 10 seconds)
+  idleIntervalMs?: number;  // Poll interval once every chute has settled (default 2 minutes)
+  maxBackoffMs?: number;  // Longest wait between polls while the API is failing (default 10 minutes)
+  logger?: Logger;
+}
+
+export const DEFAULT_CHUTE_MONITOR_OPTIONS: Required<Omit<ChuteStatusMonitorOptions, "logger">> = {
+  activeIntervalMs: 10000, // 10 seconds
+  idleIntervalMs: 120000, // 2 minutes
+  maxBackoffMs: 600000, // 10 minutes
+};
+
+const READY_CHUTE_STATUSES = ["running", "ready"];
+const FAILED_CHUTE_STATUSES = ["failed", "error"];
+
+function getEventType(status: string): ChuteStatusEventType {
+  const normalized = (status || "").toLowerCase();
+  if (READY_CHUTE_STATUSES.includes(normalized)) return "ready";
+  if (FAILED_CHUTE_STATUSES.includes(normalized)) return "failed";
+  return "changed";
+}
+
+/**
+ * Whether a chute's status can still change without anyone acting on it
+ */
+function isSettled(status: string): boolean {
+  return getEventType(status) !== "changed";
+}
+
+/**
+ * Keeps the last known status of every chute and reports changes
+ * The first poll only records statuses; changes are reported from the second
+ * poll on, and for chutes passed to track() from the moment they're tracked.
+ */
+export class ChuteStatusMonitor {
+  private chutes = new Map<string, ChutesChute>();
+  private listeners = new Set<ChuteStatusListener>();
+  private options: Required<Omit<ChuteStatusMonitorOptions, "logger">>;
+  private logger: Logger;
+  private timer?: ReturnType<typeof setTimeout>;
+  private nextPollAt = 0;
+  private running = false;
+  private failures = 0;
+  private lastError?: unknown;
+
+  constructor(private client: ChutesApiClient, options: ChuteStatusMonitorOptions = {}) {
+    const { logger, ...intervals } = options;
+    this.options = { ...DEFAULT_CHUTE_MONITOR_OPTIONS, ...intervals };
+    this.logger = logger || getDefaultLogger();
+  }
+
+  /**
+   * Subscribe to status changes
+   *
+   * @returns A function that removes the listener
+   */
+  on(listener: ChuteStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start following a chute, e.g. right after deploying it
+   * Polling speeds up until the chute settles.
+   */
+  track(chute: ChutesChute): void {
+    this.chutes.set(chute.id, chute);
+    if (this.running && this.timer && !isSettled(chute.status)) {
+      this.schedule(Math.min(this.nextPollAt - Date.now(), this.options.activeIntervalMs));
+    }
+  }
+
+  /**
+   * Replace the logger
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+  }
+
+  /**
+   * Last known status of a chute
+   */
+  getStatus(chuteId: string): string | undefined {
+    return this.chutes.get(chuteId)?.status;
+  }
+
+  /**
+   * Start polling in the background
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling; a poll already in flight still finishes
+   */
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Poll once and report the changes
+   * Listeners have been called by the time the returned promise resolves.
+   */
+  async poll(): Promise<ChuteStatusEvent[]> {
+    // Stale cached lists would hide changes
+    if (this.client instanceof ChutesClient) {
+      await this.client.invalidateCache("/chutes", ...[...this.chutes.keys()].map(id => `/chutes/${id}`));
+    }
+
+    const events: ChuteStatusEvent[] = [];
+    const listed = new Set<string>();
+    for (const chute of await this.client.listChutes()) {
+      listed.add(chute.id);
+      this.update(chute, events);
+    }
+
+    // The list can lag behind a new deployment, so a missing chute is looked up before it counts as deleted
+    for (const [id, previous] of [...this.chutes]) {
+      if (listed.has(id)) continue;
+      try {
+        this.update(await this.client.getChute(id), events);
+      } catch (error) {
+        if (!(error instanceof ChutesNotFoundError)) throw error;
+        this.chutes.delete(id);
+        events.push({ type: "deleted", chuteId: id, chuteName: previous.name, previousStatus: previous.status, status: "deleted" });
+      }
+    }
+
+    for (const event of events) {
+      await this.emit(event);
+    }
+    return events;
+  }
+
+  /**
+   * Delay before the next poll
+   * After errors the delay doubles up to maxBackoffMs, and never undercuts
+   * the Retry-After of a rate-limited response.
+   */
+  getNextDelay(): number {
+    const changing = [...this.chutes.values()].some(chute => !isSettled(chute.status));
+    const interval = changing ? this.options.activeIntervalMs : this.options.idleIntervalMs;
+    if (this.failures === 0) return interval;
+
+    const backoff = Math.min(interval * 2 ** this.failures, this.options.maxBackoffMs);
+    const retryAfter = this.lastError instanceof ChutesRateLimitError ? this.lastError.retryAfterMs ?? 0 : 0;
+    return Math.max(backoff, retryAfter);
+  }
+
+  private update(chute: ChutesChute, events: ChuteStatusEvent[]): void {
+    const previous = this.chutes.get(chute.id);
+    this.chutes.set(chute.id, chute);
+    if (!previous || previous.status === chute.status) return;
+
+    events.push({
+      type: getEventType(chute.status),
+      chuteId: chute.id,
+      chuteName: chute.name,
+      previousStatus: previous.status,
+      status: chute.status,
+      chute,
+    });
+  }
+
+  private async emit(event: ChuteStatusEvent): Promise<void> {
+    this.logger.info("Chute status changed", { chuteId: event.chuteId, from: event.previousStatus, to: event.status });
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        this.logger.error("Chute status listener failed", { error, chuteId: event.chuteId });
+      }
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    clearTimeout(this.timer);
+    this.nextPollAt = Date.now() + Math.max(0, delayMs);
+    this.timer = setTimeout(() => void this.tick(), Math.max(0, delayMs));
+    // Don't keep a process alive just to poll
+    this.timer.unref?.();
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = undefined;
+    try {
+      await this.poll();
+      this.failures = 0;
+      this.lastError = undefined;
+    } catch (error) {
+      this.failures++;
+      this.lastError = error;
+      this.logger.warn("Chute status poll failed", { error, failures: this.failures });
+    }
+    if (this.running) this.schedule(this.getNextDelay());
+  }
+}
+
+/**
+ * Where to report a chute's status changes
+ */
+export interface ChuteWatcher {
+  roomId: string;
+  callback?: (content: { text: string; action?: string }) => Promise<unknown>;  // The action callback of the request
+}
+
+/**
+ * Options for the status service
+ */
+export interface ChuteStatusServiceOptions extends ChuteStatusMonitorOptions {
+  getClient: (runtime: IAgentRuntime) => Promise<ChutesApiClient>;  // Client of the agent
+  formatEvent?: (event: ChuteStatusEvent) => string;  // Text posted to watching rooms
+}
+
+export type ChuteStatusServiceListener = (event: ChuteStatusEvent, agentId: string) => void | Promise<void>;
+
+export const CHUTE_STATUS_SERVICE_TYPE = "chute_status";
+
+/**
+ * Describe a status change for the room that asked for the deployment
+ */
+export function formatChuteStatusEvent(event: ChuteStatusEvent): string {
+  switch (event.type) {
+    case "ready":
+      return `Chute "${event.chuteName}" is up: its status changed from ${event.previousStatus} to ${event.status}.`;
+    case "failed":
+      return `Chute "${event.chuteName}" has failed: its status changed from ${event.previousStatus} to ${event.status}.`;
+    case "deleted":
+      return `Chute "${event.chuteName}" was deleted.`;
+    default:
+      return `Chute "${event.chuteName}" changed status from ${event.previousStatus} to ${event.status}.`;
+  }
+}
+
+interface AgentMonitor {
+  runtime: IAgentRuntime;
+  monitor: ChuteStatusMonitor;
+  watchers: Map<string, ChuteWatcher[]>;  // By chute ID
+}
+
+/**
+ * Eliza service that monitors each agent's chutes and tells rooms about
+ * the chutes they deployed
+ * Every agent gets its own monitor, started when the agent initializes the
+ * service or first watches a chute.
+ */
+export class ChuteStatusService {
+  static readonly serviceType = CHUTE_STATUS_SERVICE_TYPE;
+  readonly serviceType = CHUTE_STATUS_SERVICE_TYPE;
+  private agents = new Map<string, AgentMonitor>();
+  private starting = new Map<string, Promise<AgentMonitor>>();
+  private listeners = new Set<ChuteStatusServiceListener>();
+  private logger: Logger;
+
+  constructor(private options: ChuteStatusServiceOptions) {
+    this.logger = options.logger || getDefaultLogger();
+  }
+
+  /**
+   * Start monitoring an agent's chutes
+   * An agent without Chutes settings is skipped rather than failing to start.
+   */
+  async initialize(runtime: IAgentRuntime): Promise<void> {
+    try {
+      await this.getAgentMonitor(runtime);
+    } catch (error) {
+      this.logger.warn("Not monitoring chutes for this agent", { error, agentId: runtime?.agentId });
+    }
+  }
+
+  /**
+   * Subscribe to status changes of every agent's chutes
+   *
+   * @returns A function that removes the listener
+   */
+  on(listener: ChuteStatusServiceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Follow a chute and report its status changes to a room
+   */
+  async watch(runtime: IAgentRuntime, chute: ChutesChute, watcher: ChuteWatcher): Promise<void> {
+    const agent = await this.getAgentMonitor(runtime);
+    agent.watchers.set(chute.id, [...(agent.watchers.get(chute.id) || []), watcher]);
+    agent.monitor.track(chute);
+  }
+
+  /**
+   * Last known status of one of an agent's chutes
+   */
+  getStatus(runtime: IAgentRuntime, chuteId: string): string | undefined {
+    return this.agents.get(String(runtime?.agentId ?? "default"))?.monitor.getStatus(chuteId);
+  }
+
+  /**
+   * Replace the logger used by the service and its monitors
+   */
+  setLogger(logger: Logger): void {
+    this.logger = logger;
+    for (const agent of this.agents.values()) {
+      agent.monitor.setLogger(logger);
+    }
+  }
+
+  /**
+   * Stop every agent's monitor
+   */
+  stop(): void {
+    for (const agent of this.agents.values()) {
+      agent.monitor.stop();
+    }
+  }
+
+  private getAgentMonitor(runtime: IAgentRuntime): Promise<AgentMonitor> {
+    const agentId = String(runtime?.agentId ?? "default");
+    const existing = this.agents.get(agentId);
+    if (existing) return Promise.resolve(existing);
+
+    // Concurrent callers share one monitor
+    let starting = this.starting.get(agentId);
+    if (!starting) {
+      starting = this.options.getClient(runtime).then(client => {
+        const { getClient, formatEvent, ...monitorOptions } = this.options;
+        const agent: AgentMonitor = {
+          runtime,
+          monitor: new ChuteStatusMonitor(client, { ...monitorOptions, logger: this.logger }),
+          watchers: new Map(),
+        };
+        agent.monitor.on(event => this.handleEvent(agentId, agent, event));
+        agent.monitor.start();
+        this.agents.set(agentId, agent);
+        return agent;
+      }).finally(() => this.starting.delete(agentId));
+      this.starting.set(agentId, starting);
+    }
+    return starting;
+  }
+
+  private async handleEvent(agentId: string, agent: AgentMonitor, event: ChuteStatusEvent): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(event, agentId);
+      } catch (error) {
+        this.logger.error("Chute status listener failed", { error, chuteId: event.chuteId });
+      }
+    }
+
+    const watchers = agent.watchers.get(event.chuteId) || [];
+    if (event.type === "deleted") agent.watchers.delete(event.chuteId);
+    if (watchers.length === 0) return;
+
+    const text = (this.options.formatEvent || formatChuteStatusEvent)(event);
+    for (const watcher of watchers) {
+      await this.notifyRoom(agent.runtime, watcher, text);
+    }
+  }
+
+  /**
+   * Post to the room through the request's callback, and save the message
+   * in the room's history so the agent knows about it in later replies
+   */
+  private async notifyRoom(runtime: IAgentRuntime, watcher: ChuteWatcher, text: string): Promise<void> {
+    const content = { text, action: "chute_status" };
+    try {
+      await watcher.callback?.(content);
+      await runtime?.messageManager?.createMemory({
+        id: randomUUID(),
+        userId: runtime.agentId,
+        agentId: runtime.agentId,
+        roomId: watcher.roomId,
+        content,
+        createdAt: Date.now(),
+      });
+    } catch (error) {
+      this.logger.warn("Could not notify the room of a chute status change", { error, roomId: watcher.roomId });
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Chutes account provider
+ *
+ * Adds a compact summary of the user's Chutes account to the agent's state:
+ * who they are, whether they can deploy, and which chutes exist with their
+ * status and cords. This lets the model answer questions like "is my model
+ * up?" without a user triggering an action.
+ */
+
+import { ChutesApiClient, ChutesProvider } from "./types.js";
+
+// Define types to avoid @ai16z/eliza dependency in development
+interface IAgentRuntime {
+  [key: string]: any;
+}
+
+/**
+ * Options for the account provider
+ */
+export interface ChutesAccountProviderOptions {
+  getClient: (runtime: IAgentRuntime) => Promise<ChutesApiClient>;  // Client of the agent asking
+  ttlMs?: number;  // How long a summary is reused (default 60 seconds)
+  maxChutes?: number;  // Chutes listed in the summary (default 20)
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_SUMMARY_TTL_MS = 60000;
+const DEFAULT_MAX_CHUTES = 20;
+
+/**
+ * Build the account summary from the API
+ *
+ * @param client Client of the account to summarize
+ * @param maxChutes Chutes listed before the rest are only counted
+ */
+export async function buildAccountSummary(client: ChutesApiClient, maxChutes: number = DEFAULT_MAX_CHUTES): Promise<string> {
+  const [user, developer, chutes] = await Promise.all([
+    client.getUserInfo(),
+    client.checkDeveloperStatus(),
+    client.listChutes(),
+  ]);
+
+  const listed = chutes.slice(0, maxChutes);
+  const cords = await Promise.all(listed.map(chute =>
+    client.listCords(chute.id).then(
+      list => list.map(cord => cord.name),
+      () => undefined  // Leave the cords out rather than the whole chute
+    )
+  ));
+
+  const lines = [
+    `Chutes account: ${user.username || user.user || "unknown user"}`,
+    developer.isDeveloper
+      ? "Developer access: yes (can deploy images and chutes)"
+      : `Developer access: no${developer.depositInfo ? ` (needs a deposit of about ${developer.depositInfo.tao_estimate} TAO to deploy)` : ""}`,
+  ];
+
+  if (chutes.length === 0) {
+    lines.push("Chutes: none deployed");
+  } else {
+    lines.push(`Chutes (${chutes.length}):`);
+    listed.forEach((chute, index) => {
+      const cordList = cords[index];
+      const cordText = cordList === undefined ? "cords unknown" : `cords: ${cordList.join(", ") || "none"}`;
+      lines.push(`- ${chute.name} (${chute.status}; ${cordText})`);
+    });
+    if (chutes.length > listed.length) {
+      lines.push(`- ...and ${chutes.length - listed.length} more`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Create a provider that adds the account summary to an agent's state
+ * Summaries are cached per client, so each agent refreshes its own at most
+ * once per TTL, and concurrent requests share one refresh.
+ */
+export function createChutesAccountProvider(options: ChutesAccountProviderOptions): ChutesProvider {
+  const ttlMs = options.ttlMs ?? DEFAULT_SUMMARY_TTL_MS;
+  const cache = new WeakMap<ChutesApiClient, { summary: Promise<string>; expiresAt: number }>();
+
+  return {
+    get: async (runtime) => {
+      try {
+        const client = await options.getClient(runtime);
+        const cached = cache.get(client);
+        if (cached && cached.expiresAt > Date.now()) {
+          return await cached.summary;
+        }
+
+        const summary = buildAccountSummary(client, options.maxChutes);
+        cache.set(client, { summary, expiresAt: Date.now() + ttlMs });
+        try {
+          return await summary;
+        } catch (error) {
+          // Failures are not cached, so the next message tries again
+          if (cache.get(client)?.summary === summary) cache.delete(client);
+          throw error;
+        }
+      } catch (error) {
+        options.onError?.(error);
+        return "";
+      }
+    },
+  };
+}
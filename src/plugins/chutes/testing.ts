@@ -0,0 +1,11 @@
+/**
+ * Test helpers for the Chutes plugin
+ *
+ * Kept out of the plugin's main entry point, so agents don't load an HTTP
+ * server or fake client they never use:
+ *
+ *   import { FakeChutesClient, MockChutesServer } from "./plugins/chutes/testing.js";
+ */
+
+export * from "./mock-server.js";
+export * from "./fake-client.js";
@@ -2,6 +2,8 @@
  * Type definitions for the Chutes API plugin
  */
 
+import { RetryPolicy } from "../../common/api-utils.js";
+
 // Define types to avoid @ai16z/eliza dependency in development
 interface IAgentRuntime {
   [key: string]: any;
@@ -9,6 +11,7 @@ interface IAgentRuntime {
 
 interface Memory {
   user: string;
+  roomId?: string;
   content: any;
 }
 
@@ -16,7 +19,15 @@ interface State {
   [key: string]: any;
 }
 
-type Handler = (runtime: IAgentRuntime, message: Memory, state?: State) => Promise<any>;
+type HandlerCallback = (response: any) => Promise<any>;
+
+type Handler = (
+  runtime: IAgentRuntime,
+  message: Memory,
+  state?: State,
+  options?: { [key: string]: unknown },
+  callback?: HandlerCallback
+) => Promise<any>;
 type Validator = (runtime: IAgentRuntime, message: Memory, state?: State) => Promise<boolean>;
 
 interface ActionExample {
@@ -33,10 +44,21 @@ interface Action {
   validate: Validator;
 }
 
+interface Provider {
+  get: (runtime: IAgentRuntime, message: Memory, state?: State) => Promise<any>;
+}
+
+interface Service {
+  serviceType: string;
+  initialize: (runtime: IAgentRuntime) => Promise<void>;
+}
+
 interface Plugin {
   name: string;
   description: string;
   actions: Action[];
+  providers?: Provider[];
+  services?: Service[];
 }
 
 /**
@@ -82,6 +104,55 @@ export interface ChutesImage {
   readme?: string;
   public: boolean;
   created_at: string;
+  status?: string;
+}
+
+/**
+ * Status of an image build
+ */
+export type ChutesImageBuildStatus =
+  | "pending"
+  | "building"
+  | "pushing"
+  | "built"
+  | "failed";
+
+/**
+ * Parameters for building and uploading an image
+ */
+export interface CreateImageParams {
+  name: string;
+  tag: string;
+  contextDir: string;  // Local directory containing the Dockerfile and build files
+  dockerfile?: string;  // Path relative to contextDir, defaults to "Dockerfile"
+  readme?: string;
+  public?: boolean;
+  ignore?: string[];  // Extra patterns to exclude, in .dockerignore syntax
+}
+
+/**
+ * Options for waiting on an image build
+ */
+export interface ImageBuildOptions {
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+  onLog?: (line: string) => void;
+}
+
+/**
+ * Result of an image build
+ */
+export interface ChutesImageBuild {
+  imageId: string;
+  name: string;
+  tag: string;
+  status: ChutesImageBuildStatus;
+  startedAt: string;
+  completedAt?: string;
+  durationMs: number;
+  error?: string;
+  image?: ChutesImage;
 }
 
 /**
@@ -104,6 +175,39 @@ export interface ChutesChute {
   };
 }
 
+/**
+ * Fields of a chute that can be changed after deployment
+ */
+export interface UpdateChuteParams {
+  readme?: string;
+  public?: boolean;
+  node_selector?: ChutesChute["node_selector"];
+}
+
+/**
+ * Represents a running instance of a chute
+ */
+export interface ChutesInstance {
+  instance_id: string;
+  chute_id: string;
+  miner_hotkey?: string;
+  region?: string;
+  active: boolean;
+  verified: boolean;
+  last_verified_at?: string;
+  created_at: string;
+}
+
+/**
+ * Options for waiting on a chute status
+ */
+export interface WaitForStatusOptions {
+  timeout?: number;
+  pollInterval?: number;
+  signal?: AbortSignal;
+  onStatusChange?: (status: string, chute: ChutesChute) => void;
+}
+
 /**
  * Represents a cord function in the Chutes API
  */
@@ -116,29 +220,129 @@ export interface ChutesCord {
   public_api_method?: string;
 }
 
+/**
+ * A partial result yielded while a cord is streaming its output
+ */
+export interface ChutesCordStreamChunk {
+  data: any;  // Parsed JSON payload, or the raw text if the chunk isn't JSON
+  text?: string;
+  event?: string;
+}
+
+/**
+ * Per-call request options
+ * Only idempotent requests are retried by default; requests with an
+ * idempotency key are retried too, since the API can recognize repeats
+ */
+export interface ChutesRequestOptions {
+  signal?: AbortSignal;  // Cancels the call, including retries
+  timeoutMs?: number;  // Timeout for each attempt
+  retry?: RetryPolicy;
+  idempotencyKey?: string;  // Reused on every attempt of the call
+}
+
+/**
+ * Options for cord execution
+ * Params are validated against the cord's input schema unless `validate` is false;
+ * pass `inputSchema` to skip looking the schema up
+ */
+export interface CordExecutionOptions {
+  validate?: boolean;
+  inputSchema?: object;
+}
+
+/**
+ * Options for streaming cord execution
+ */
+export interface CordStreamOptions {
+  signal?: AbortSignal;
+  idleTimeoutMs?: number;
+}
+
+/**
+ * A message in an OpenAI-compatible chat conversation
+ */
+export interface ChutesChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+  name?: string;
+}
+
+/**
+ * Chat completion request; `model` is the name of the chute serving the model
+ */
+export interface ChutesChatCompletionRequest {
+  model: string;
+  messages: ChutesChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stop?: string | string[];
+}
+
+/**
+ * Chat completion response from the Chutes LLM endpoint
+ */
+export interface ChutesChatCompletion {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: ChutesChatMessage;
+    finish_reason: string | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+/**
+ * A single chunk of a streamed chat completion
+ */
+export interface ChutesChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: Partial<ChutesChatMessage>;
+    finish_reason: string | null;
+  }[];
+}
+
 /**
  * Chutes API client interface
  */
 export interface ChutesApiClient {
   // Authentication
-  checkAuth(): Promise<boolean>;
+  checkAuth(options?: ChutesRequestOptions): Promise<boolean>;
   
   // User Information
-  getUserInfo(): Promise<ChutesUserInfo>;
-  getDeveloperDepositInfo(): Promise<DeveloperDepositInfo>;
-  checkDeveloperStatus(): Promise<{
+  getUserInfo(options?: ChutesRequestOptions): Promise<ChutesUserInfo>;
+  getDeveloperDepositInfo(options?: ChutesRequestOptions): Promise<DeveloperDepositInfo>;
+  checkDeveloperStatus(options?: ChutesRequestOptions): Promise<{
     isDeveloper: boolean;
     depositInfo?: DeveloperDepositInfo;
     requirementMessage?: string;
   }>;
   
   // Images
-  listImages(): Promise<ChutesImage[]>;
-  getImage(id: string): Promise<ChutesImage>;
+  listImages(options?: ChutesRequestOptions): Promise<ChutesImage[]>;
+  getImage(id: string, options?: ChutesRequestOptions): Promise<ChutesImage>;
+  createImage(params: CreateImageParams, options?: ImageBuildOptions): Promise<ChutesImageBuild>;
+  streamImageBuildLogs(id: string, options?: CordStreamOptions): AsyncIterable<string>;
+  deleteImage(id: string, options?: ChutesRequestOptions): Promise<boolean>;
   
   // Chutes
-  listChutes(): Promise<ChutesChute[]>;
-  getChute(id: string): Promise<ChutesChute>;
+  listChutes(options?: ChutesRequestOptions): Promise<ChutesChute[]>;
+  getChute(id: string, options?: ChutesRequestOptions): Promise<ChutesChute>;
   deployChute(params: {
     username: string;
     name: string;
@@ -150,12 +354,40 @@ export interface ChutesApiClient {
       include?: string[];
       exclude?: string[];
     };
-  }): Promise<ChutesChute>;
-  deleteChute(id: string): Promise<boolean>;
+  }, options?: ChutesRequestOptions): Promise<ChutesChute>;
+  updateChute(id: string, params: UpdateChuteParams, options?: ChutesRequestOptions): Promise<ChutesChute>;
+  deleteChute(id: string, options?: ChutesRequestOptions): Promise<boolean>;
+  listInstances(chuteId: string, options?: ChutesRequestOptions): Promise<ChutesInstance[]>;
+  waitForChuteStatus(
+    id: string,
+    targetStatus: string | string[],
+    options?: WaitForStatusOptions
+  ): Promise<ChutesChute>;
   
   // Cords
-  listCords(chuteId: string): Promise<ChutesCord[]>;
-  executeCord(chuteId: string, cordName: string, params: object): Promise<any>;
+  listCords(chuteId: string, options?: ChutesRequestOptions): Promise<ChutesCord[]>;
+  executeCord(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options?: CordExecutionOptions & ChutesRequestOptions
+  ): Promise<any>;
+  executeCordStream(
+    chuteId: string,
+    cordName: string,
+    params: object,
+    options?: CordStreamOptions & CordExecutionOptions
+  ): AsyncIterable<ChutesCordStreamChunk>;
+  
+  // Chat completions
+  createChatCompletion(
+    request: ChutesChatCompletionRequest,
+    options?: ChutesRequestOptions
+  ): Promise<ChutesChatCompletion>;
+  streamChatCompletion(
+    request: ChutesChatCompletionRequest,
+    options?: CordStreamOptions
+  ): AsyncIterable<ChutesChatCompletionChunk>;
 }
 
 /**
@@ -170,6 +402,13 @@ export interface ChutesAction extends Action {
   validate: Validator;
 }
 
+/**
+ * Chutes provider interface; the text it returns is added to the agent's state
+ */
+export interface ChutesProvider extends Provider {
+  get: (runtime: IAgentRuntime, message: Memory, state?: State) => Promise<string>;
+}
+
 /**
  * Chutes plugin interface
  */
@@ -177,6 +416,8 @@ export interface ChutesPlugin extends Plugin {
   name: string;
   description: string;
   actions: ChutesAction[];
+  providers: ChutesProvider[];
+  services: Service[];
   config: ChutesPluginConfig;
   client: ChutesApiClient;
 }
@@ -0,0 +1,499 @@
+/**
+ * Chutes Command-Line Tool
+ *
+ * Runs the same ChutesClient the agent uses from a shell or CI script:
+ *
+ *   npm run chutes -- whoami
+ *   npm run chutes -- chutes ls --json
+ *   npm run chutes -- exec my-model generate --params '{"prompt": "Hello"}'
+ *
+ * Chutes and images can be given by ID or by name. Results are printed as a
+ * table by default, or as JSON with --json. The exit code tells scripts what
+ * went wrong; see EXIT_CODES.
+ */
+
+import * as fs from "fs";
+import { parseArgs } from "util";
+
+import { ChutesClient } from "../plugins/chutes/client.js";
+import { ResolvedChutesConfig, loadChutesConfig } from "../plugins/chutes/config.js";
+import { ChutesApiClient, ChutesChute, ChutesImage } from "../plugins/chutes/types.js";
+import {
+  ChutesAuthError,
+  ChutesDeveloperRequiredError,
+  ChutesError,
+  ChutesNetworkError,
+  ChutesNotFoundError,
+  ChutesRateLimitError,
+  ChutesTimeoutError,
+} from "../plugins/chutes/errors.js";
+import { ValidationError } from "../common/utils.js";
+import { Logger, createLogger, silentLogger } from "../common/logger.js";
+
+/**
+ * Exit codes, so scripts can tell failures apart
+ */
+const EXIT_CODES = {
+  ok: 0,
+  error: 1,  // Unexpected or unclassified failure
+  usage: 2,  // Invalid command, arguments or params
+  auth: 3,  // Missing or rejected API key, or developer access required
+  notFound: 4,  // Chute, image or cord does not exist
+  unavailable: 5,  // Network failure, timeout or rate limiting; retrying later may help
+} as const;
+
+const USAGE = `Usage: chutes <command> [options]
+
+Commands:
+  whoami                              Show the account behind the API key
+  config                              Show where each setting comes from
+  chutes ls                           List chutes
+  chutes get <chute>                  Show a chute
+  chutes deploy <name> --image <image> [--gpus <n>] [--vram <gb>] [--readme <text>] [--wait]
+                                      Deploy a chute from an image
+  chutes rm <chute>                   Delete a chute
+  images ls                           List images
+  images get <image>                  Show an image
+  cords ls <chute>                    List the cords of a chute
+  exec <chute> <cord> --params <json|@file> [--stream]
+                                      Execute a cord
+
+Chutes and images are given by ID or name; images also as name:tag.
+
+Options:
+  --json                Print results as JSON
+  --table               Print results as a table (default)
+  --profile <name>      Config profile, e.g. staging (default: CHUTES_PROFILE or the file's defaultProfile)
+  --config <file>       Config file (default: CHUTES_CONFIG_FILE or ~/.chutes/config.json)
+  --api-key <key>       API key (default: from the profile or CHUTES_API_KEY)
+  --base-url <url>      API base URL (default: from the profile, CHUTES_API_BASE_URL or https://api.chutes.ai)
+  --timeout <ms>        Timeout per request attempt
+  --verbose             Log requests and retries to stderr
+  --help                Show this help
+
+Exit codes: 0 success, 1 error, 2 usage, 3 auth, 4 not found, 5 unavailable`;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type OutputFormat = "json" | "table";
+
+/**
+ * What a command prints: rows become a table, a record becomes key/value lines
+ */
+type CommandResult =
+  | { rows: Record<string, unknown>[]; columns: string[]; data: unknown }
+  | { record: Record<string, unknown>; data: unknown }
+  | { message: string; data: unknown }
+  | { streamed: true };
+
+interface CommandContext {
+  client: ChutesApiClient;
+  resolved: ResolvedChutesConfig;
+  args: string[];  // Positionals after the command name
+  values: Record<string, string | boolean | undefined>;
+  format: OutputFormat;
+}
+
+type Command = (context: CommandContext) => Promise<CommandResult>;
+
+const COMMANDS: Record<string, Command> = {
+  "whoami": whoami,
+  "config": showConfig,
+  "chutes ls": listChutes,
+  "chutes get": getChute,
+  "chutes deploy": deployChute,
+  "chutes rm": deleteChute,
+  "images ls": listImages,
+  "images get": getImage,
+  "cords ls": listCords,
+  "exec": executeCord,
+};
+
+async function whoami({ client }: CommandContext): Promise<CommandResult> {
+  const user = await client.getUserInfo();
+  return {
+    record: {
+      username: user.username || user.user,
+      developer: !!user.is_developer,
+      wallet: user.wallet_address,
+    },
+    data: user,
+  };
+}
+
+async function showConfig({ resolved }: CommandContext): Promise<CommandResult> {
+  const rows = Object.entries(resolved.sources).map(([setting, source]) => ({
+    setting,
+    layer: source.layer,
+    source: source.name,
+  }));
+  return {
+    rows: [{ setting: "profile", layer: "-", source: resolved.profile }, ...rows],
+    columns: ["setting", "layer", "source"],
+    data: { profile: resolved.profile, configPath: resolved.configPath, sources: resolved.sources },
+  };
+}
+
+async function listChutes({ client }: CommandContext): Promise<CommandResult> {
+  const chutes = await client.listChutes();
+  return {
+    rows: chutes.map(chute => ({
+      id: chute.id,
+      name: chute.name,
+      status: chute.status,
+      gpus: `${chute.node_selector?.gpu_count ?? "?"}x${chute.node_selector?.min_vram_gb_per_gpu ?? "?"}GB`,
+      created: chute.created_at,
+    })),
+    columns: ["id", "name", "status", "gpus", "created"],
+    data: chutes,
+  };
+}
+
+async function getChute({ client, args }: CommandContext): Promise<CommandResult> {
+  const chute = await resolveChute(client, requireArg(args, 0, "chute"));
+  return { record: describeChute(chute), data: chute };
+}
+
+async function deployChute({ client, args, values }: CommandContext): Promise<CommandResult> {
+  const name = requireArg(args, 0, "name");
+  if (typeof values.image !== "string") {
+    throw new ValidationError("--image is required", "image");
+  }
+
+  const image = await resolveImage(client, values.image);
+  const user = await client.getUserInfo();
+  const chute = await client.deployChute({
+    username: user.username || user.user || "",
+    name,
+    image_id: image.id,
+    readme: typeof values.readme === "string" ? values.readme : undefined,
+    node_selector: {
+      gpu_count: parseIntFlag(values.gpus, "gpus", 1),
+      min_vram_gb_per_gpu: parseIntFlag(values.vram, "vram", 24),
+    },
+  });
+
+  const deployed = values.wait
+    ? await client.waitForChuteStatus(chute.id, "running", {
+      onStatusChange: status => process.stderr.write(`Status: ${status}\n`),
+    })
+    : chute;
+  return { record: describeChute(deployed), data: deployed };
+}
+
+async function deleteChute({ client, args }: CommandContext): Promise<CommandResult> {
+  const chute = await resolveChute(client, requireArg(args, 0, "chute"));
+  await client.deleteChute(chute.id);
+  return { message: `Deleted chute ${chute.name} (${chute.id})`, data: { deleted: true, id: chute.id } };
+}
+
+async function listImages({ client }: CommandContext): Promise<CommandResult> {
+  const images = await client.listImages();
+  return {
+    rows: images.map(image => ({
+      id: image.id,
+      name: image.name,
+      tag: image.tag,
+      status: image.status,
+      public: image.public,
+      created: image.created_at,
+    })),
+    columns: ["id", "name", "tag", "status", "public", "created"],
+    data: images,
+  };
+}
+
+async function getImage({ client, args }: CommandContext): Promise<CommandResult> {
+  const image = await resolveImage(client, requireArg(args, 0, "image"));
+  return {
+    record: {
+      id: image.id,
+      name: image.name,
+      tag: image.tag,
+      status: image.status,
+      public: image.public,
+      owner: image.username,
+      created: image.created_at,
+    },
+    data: image,
+  };
+}
+
+async function listCords({ client, args }: CommandContext): Promise<CommandResult> {
+  const chute = await resolveChute(client, requireArg(args, 0, "chute"));
+  const cords = await client.listCords(chute.id);
+  return {
+    rows: cords.map(cord => ({
+      name: cord.name,
+      method: cord.public_api_method,
+      path: cord.public_api_path,
+      description: cord.description,
+    })),
+    columns: ["name", "method", "path", "description"],
+    data: cords,
+  };
+}
+
+async function executeCord({ client, args, values, format }: CommandContext): Promise<CommandResult> {
+  const chute = await resolveChute(client, requireArg(args, 0, "chute"));
+  const cordName = requireArg(args, 1, "cord");
+  const params = parseParams(values.params);
+
+  if (values.stream) {
+    // Text is written as it arrives; in JSON mode every chunk is one line
+    for await (const chunk of client.executeCordStream(chute.id, cordName, params)) {
+      if (format === "json") {
+        process.stdout.write(JSON.stringify(chunk.data) + "\n");
+      } else if (chunk.text) {
+        process.stdout.write(chunk.text);
+      }
+    }
+    if (format !== "json") process.stdout.write("\n");
+    return { streamed: true };
+  }
+
+  const result = await client.executeCord(chute.id, cordName, params);
+  return typeof result === "string"
+    ? { message: result, data: result }
+    : { message: JSON.stringify(result, null, 2), data: result };
+}
+
+function describeChute(chute: ChutesChute): Record<string, unknown> {
+  return {
+    id: chute.id,
+    name: chute.name,
+    status: chute.status,
+    owner: chute.username,
+    image: chute.image_id,
+    public: chute.public,
+    gpus: chute.node_selector?.gpu_count,
+    vram: chute.node_selector?.min_vram_gb_per_gpu !== undefined
+      ? `${chute.node_selector.min_vram_gb_per_gpu}GB`
+      : undefined,
+    created: chute.created_at,
+  };
+}
+
+/**
+ * Find a chute by ID, or by its name if the argument isn't a UUID
+ */
+async function resolveChute(client: ChutesApiClient, idOrName: string): Promise<ChutesChute> {
+  if (UUID_PATTERN.test(idOrName)) return client.getChute(idOrName);
+
+  const chutes = await client.listChutes();
+  const chute = chutes.find(candidate => candidate.name.toLowerCase() === idOrName.toLowerCase());
+  if (!chute) {
+    throw new ChutesNotFoundError(`No chute with ID or name "${idOrName}"`, { status: 404 });
+  }
+  return chute;
+}
+
+/**
+ * Find an image by ID, by name, or by name:tag
+ */
+async function resolveImage(client: ChutesApiClient, reference: string): Promise<ChutesImage> {
+  if (UUID_PATTERN.test(reference)) return client.getImage(reference);
+
+  const [name, tag] = reference.toLowerCase().split(":");
+  const images = await client.listImages();
+  const image = images.find(candidate =>
+    candidate.name.toLowerCase() === name && (!tag || candidate.tag.toLowerCase() === tag)
+  );
+  if (!image) {
+    throw new ChutesNotFoundError(`No image with ID or name "${reference}"`, { status: 404 });
+  }
+  return image;
+}
+
+function requireArg(args: string[], index: number, name: string): string {
+  if (!args[index]) {
+    throw new ValidationError(`Missing <${name}> argument`, name);
+  }
+  return args[index];
+}
+
+function parseIntFlag(value: string | boolean | undefined, name: string, defaultValue: number): number {
+  if (value === undefined) return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ValidationError(`--${name} must be a positive integer`, name);
+  }
+  return parsed;
+}
+
+/**
+ * Parse --params as inline JSON, or read it from a file given as @path
+ */
+function parseParams(value: string | boolean | undefined): object {
+  if (value === undefined) return {};
+  if (typeof value !== "string") {
+    throw new ValidationError("--params needs a JSON object or @file", "params");
+  }
+
+  const json = value.startsWith("@") ? fs.readFileSync(value.slice(1), "utf8") : value;
+  let params: unknown;
+  try {
+    params = JSON.parse(json);
+  } catch (error) {
+    throw new ValidationError(`--params is not valid JSON: ${(error as Error).message}`, "params");
+  }
+  if (!params || typeof params !== "object" || Array.isArray(params)) {
+    throw new ValidationError("--params must be a JSON object", "params");
+  }
+  return params;
+}
+
+function printResult(result: CommandResult, format: OutputFormat): void {
+  if ("streamed" in result) return;
+
+  if (format === "json") {
+    console.log(JSON.stringify(result.data, null, 2));
+  } else if ("rows" in result) {
+    console.log(formatTable(result.rows, result.columns));
+  } else if ("record" in result) {
+    const entries = Object.entries(result.record).filter(([, value]) => value !== undefined);
+    const width = Math.max(...entries.map(([key]) => key.length));
+    console.log(entries.map(([key, value]) => `${key.padEnd(width)}  ${formatCell(value)}`).join("\n"));
+  } else {
+    console.log(result.message);
+  }
+}
+
+function formatTable(rows: Record<string, unknown>[], columns: string[]): string {
+  if (rows.length === 0) return "No results";
+
+  const cells = rows.map(row => columns.map(column => formatCell(row[column])));
+  const widths = columns.map((column, index) =>
+    Math.max(column.length, ...cells.map(row => row[index].length))
+  );
+  const line = (values: string[]) =>
+    values.map((value, index) => value.padEnd(widths[index])).join("  ").trimEnd();
+
+  return [line(columns.map(column => column.toUpperCase())), ...cells.map(line)].join("\n");
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "-";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Map an error to the exit code scripts should see
+ */
+function getExitCode(error: unknown): number {
+  if (error instanceof ValidationError) return EXIT_CODES.usage;
+  if (error instanceof ChutesAuthError || error instanceof ChutesDeveloperRequiredError) return EXIT_CODES.auth;
+  if (error instanceof ChutesNotFoundError) return EXIT_CODES.notFound;
+  if (
+    error instanceof ChutesNetworkError
+    || error instanceof ChutesTimeoutError
+    || error instanceof ChutesRateLimitError
+    || (error instanceof ChutesError && (error.status ?? 0) >= 500)
+  ) {
+    return EXIT_CODES.unavailable;
+  }
+  return EXIT_CODES.error;
+}
+
+function printError(error: unknown, format: OutputFormat): void {
+  if (format === "json") {
+    const { name, message } = error instanceof Error ? error : { name: "Error", message: String(error) };
+    const { status, code, requestId } = error instanceof ChutesError ? error : ({} as Partial<ChutesError>);
+    console.error(JSON.stringify({ error: { name, message, status, code, requestId } }, null, 2));
+    return;
+  }
+
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  if (error instanceof ChutesDeveloperRequiredError && error.requirementMessage) {
+    console.error(error.requirementMessage);
+  }
+}
+
+/**
+ * Logs go to stderr, so --json output on stdout stays parseable
+ */
+function createStderrLogger(): Logger {
+  return createLogger(({ level, message, timestamp, context }) => {
+    const fields = Object.keys(context).length > 0 ? ` ${JSON.stringify(context)}` : "";
+    process.stderr.write(`${timestamp} ${level.toUpperCase()} ${message}${fields}\n`);
+  }, { level: "debug" });
+}
+
+async function main(argv: string[]): Promise<number> {
+  let format: OutputFormat = "table";
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "json": { type: "boolean" },
+        "table": { type: "boolean" },
+        "profile": { type: "string" },
+        "config": { type: "string" },
+        "api-key": { type: "string" },
+        "base-url": { type: "string" },
+        "timeout": { type: "string" },
+        "verbose": { type: "boolean" },
+        "help": { type: "boolean", short: "h" },
+        "params": { type: "string" },
+        "stream": { type: "boolean" },
+        "image": { type: "string" },
+        "gpus": { type: "string" },
+        "vram": { type: "string" },
+        "readme": { type: "string" },
+        "wait": { type: "boolean" },
+      },
+    });
+    format = values.json && !values.table ? "json" : "table";
+
+    if (values.help || positionals.length === 0) {
+      console.log(USAGE);
+      return values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+    }
+
+    // Commands are one word ("exec") or a group and a verb ("chutes ls")
+    const [first, second, ...rest] = positionals;
+    const name = COMMANDS[first] ? first : `${first} ${second}`;
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new ValidationError(`Unknown command "${positionals.slice(0, 2).join(" ")}". Run with --help for usage.`);
+    }
+    const args = COMMANDS[first] ? positionals.slice(1) : rest;
+
+    const resolved = loadChutesConfig({
+      profile: values.profile,
+      configPath: values.config,
+      defaults: { baseUrl: "https://api.chutes.ai" },
+      options: {
+        apiKey: values["api-key"],
+        baseUrl: values["base-url"],
+        timeoutMs: values.timeout !== undefined ? parseIntFlag(values.timeout, "timeout", 0) : undefined,
+      },
+    });
+    if (!resolved.config.apiKey && name !== "config") {
+      throw new ChutesAuthError(`No API key for profile "${resolved.profile}"; set CHUTES_API_KEY, add it to the config file or pass --api-key`);
+    }
+
+    const client = new ChutesClient({
+      ...resolved.config,
+      apiKey: resolved.config.apiKey || "",
+      logger: values.verbose ? createStderrLogger() : silentLogger,
+    });
+
+    const result = await command({ client, resolved, args, values, format });
+    printResult(result, format);
+    return EXIT_CODES.ok;
+  } catch (error) {
+    // parseArgs rejects unknown options with a TypeError carrying an ERR_PARSE_ARGS_* code
+    const usageError = (error as { code?: string })?.code?.startsWith("ERR_PARSE_ARGS")
+      ? new ValidationError((error as Error).message)
+      : error;
+    printError(usageError, format);
+    return getExitCode(usageError);
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
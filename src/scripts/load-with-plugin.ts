@@ -8,9 +8,15 @@ import {
   validateCharacterConfig,
   stringToUuid,
   type IDatabaseAdapter,
+  ModelProviderName,
 } from "@ai16z/eliza";
 
 import { loadCharacters } from "./loader.ts";
+import {
+  CHUTES_MODEL_PROVIDER,
+  configureChutesModelProvider,
+} from "../plugins/chutes/model-provider.ts";
+import { loadChutesConfig } from "../plugins/chutes/config.ts";
 import { DirectClient } from "@ai16z/client-direct";
 import { pathToFileURL, fileURLToPath } from "url";
 
@@ -230,7 +236,24 @@ async function main() {
     `DEBUG: Local plugins loaded: ${localPlugins.map((p) => p.name).join(", ")}`,
   );
 
-  for (const character of characters) {
+  for (const loadedCharacter of characters) {
+    let character = loadedCharacter;
+    let token = "dummy-token";
+    let modelFetch: typeof fetch | undefined;
+
+    // Characters on Chutes run through the OpenAI-compatible provider
+    if ((character.modelProvider as string) === CHUTES_MODEL_PROVIDER) {
+      const { config } = loadChutesConfig({ secrets: character.settings?.secrets });
+      const chutesModel = configureChutesModelProvider(character, {
+        ...config,
+        apiKey: config.apiKey || "",
+      });
+      character = { ...chutesModel.character, modelProvider: ModelProviderName.OPENAI };
+      token = chutesModel.token;
+      modelFetch = chutesModel.fetch;
+      elizaLogger.info(`Character "${character.name}" will use Chutes for text generation`);
+    }
+
     const resolvedPlugins = isStringArray(character.plugins)
       ? await resolvePlugins(character.plugins)
       : (character.plugins as Plugin[]);
@@ -246,7 +269,7 @@ async function main() {
     const runtime = new AgentRuntime({
       character,
       plugins: combinedPlugins,
-      token: "dummy-token",
+      token,
       agentId: stringToUuid(
         character.name,
       ) as `${string}-${string}-${string}-${string}-${string}`,
@@ -254,6 +277,7 @@ async function main() {
       databaseAdapter: minimalDatabaseAdapter,
       cacheManager: new CompatibleCacheAdapter(),
       logging: true,
+      fetch: modelFetch,
     });
 
     elizaLogger.success(`Agent "${character.name}" initialized successfully!`);
@@ -3,12 +3,14 @@ import {
   elizaLogger,
   validateCharacterConfig,
   defaultCharacter,
+  ModelProviderName,
 } from "@ai16z/eliza";
 import { DirectClient } from "@ai16z/client-direct";
 import fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { CHUTES_MODEL_PROVIDER } from "../plugins/chutes/model-provider.ts";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -49,7 +51,12 @@ export async function loadCharacters(
 
   try {
     const character = JSON.parse(content);
-    validateCharacterConfig(character);
+    // "chutes" isn't a built-in provider; it is mapped onto the OpenAI-compatible one at runtime
+    validateCharacterConfig(
+      character.modelProvider === CHUTES_MODEL_PROVIDER
+        ? { ...character, modelProvider: ModelProviderName.OPENAI }
+        : character,
+    );
 
     if (isAllStrings(character.plugins)) {
       elizaLogger.info("Plugins are: ", character.plugins);
@@ -0,0 +1,71 @@
+/**
+ * Mock Chutes API Server
+ *
+ * Starts the in-memory mock of the Chutes API so the doctor and the agent
+ * loader can run offline:
+ *
+ *   npm run mock-api -- --port=8787 --latency=200 --fault=503@/chutes --fault-rate=0.3
+ *   CHUTES_API_KEY=mock CHUTES_API_BASE_URL=http://127.0.0.1:8787 npm run doctor
+ *
+ * Faults are written as `<status|malformed>[@path]`; `--fault-rate` sets the
+ * chance that a matching request fails.
+ */
+
+import { MockChutesServer, MockFault } from "../plugins/chutes/mock-server.js";
+
+const args = process.argv.slice(2);
+
+function getFlag(name: string): string | undefined {
+  return args.find(arg => arg.startsWith(`--${name}=`))?.split("=").slice(1).join("=");
+}
+
+function parseFault(spec: string, probability?: number): MockFault {
+  const [kind, path] = spec.split("@");
+  const fault: MockFault = { path: path || undefined, probability };
+
+  if (kind === "malformed") {
+    fault.malformedJson = true;
+  } else if (/^\d{3}$/.test(kind)) {
+    fault.status = parseInt(kind, 10);
+    if (fault.status === 429 || fault.status === 503) fault.retryAfterSeconds = 1;
+  } else {
+    throw new Error(`Invalid fault "${spec}"; expected a status code or "malformed", optionally followed by @path`);
+  }
+  return fault;
+}
+
+async function main() {
+  const faultRate = getFlag("fault-rate");
+  const probability = faultRate !== undefined ? parseFloat(faultRate) : undefined;
+  const faults = args
+    .filter(arg => arg.startsWith("--fault="))
+    .map(arg => parseFault(arg.slice("--fault=".length), probability));
+
+  const server = new MockChutesServer({
+    port: parseInt(getFlag("port") || process.env.MOCK_CHUTES_PORT || "8787", 10),
+    host: getFlag("host"),
+    latencyMs: parseInt(getFlag("latency") || "0", 10),
+    transitionDelayMs: parseInt(getFlag("transition-delay") || "2000", 10),
+    faults,
+  });
+
+  const url = await server.start();
+  console.log(`Mock Chutes API listening on ${url}`);
+  console.log(`  CHUTES_API_BASE_URL=${url}`);
+  console.log(`  CHUTES_LLM_BASE_URL=${url}/v1`);
+  for (const fault of faults) {
+    console.log(`  Fault: ${fault.status ?? "malformed JSON"} on ${fault.path ?? "every path"}`);
+  }
+
+  const shutdown = async () => {
+    await server.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(error => {
+  console.error("Failed to start the mock Chutes API:", error);
+  process.exit(1);
+});